@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+/**
+ * Enrich Cities Script
+ *
+ * Adds what the game needs to filter questions to the city list in server/cities.ts:
+ * 1. ISO2 country code - the country polygon the city lies in (point-in-polygon
+ *    against countries-enriched.json). The listed country wins when the city is
+ *    on or near its border: tiny countries and coastlines are coarse polygons.
+ * 2. Continent - from the country, or a coarse box for territories without one
+ *    and for countries on two continents
+ * 3. Difficulty tier - world-famous places are easy, small places are hard
+ *
+ * Outputs: server/cities-enriched.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { cities, type City, type EnrichedCity } from '../server/cities';
+import { getCountryCodeAt, getCountryCodeByName, getCountryRegion, getDistanceToCountry } from '../server/countries';
+import { getRegion, type Region } from '../shared/geo';
+import type { QuestionDifficulty } from '../shared/difficulty';
+
+// Places nearly everyone can find on a map
+const WORLD_FAMOUS_CITIES = new Set([
+    'London', 'Paris', 'Rome', 'Berlin', 'Madrid', 'Barcelona', 'Amsterdam', 'Venice', 'Athens', 'Moscow',
+    'Istanbul', 'Cairo', 'Cape Town', 'Dubai', 'Mumbai', 'Bangkok', 'Singapore', 'Hong Kong', 'Beijing', 'Tokyo',
+    'Seoul', 'Sydney', 'New York', 'Los Angeles', 'San Francisco', 'Chicago', 'Toronto', 'Mexico City',
+    'Rio de Janeiro', 'Buenos Aires'
+]);
+
+// How far outside its listed country's polygon a city may be and still keep that country
+const NEAR_LISTED_COUNTRY_KM = 25;
+
+// The dataset puts each country on one continent - for these the city's position decides
+const TRANSCONTINENTAL_COUNTRIES = new Set(['RU', 'TR', 'EG', 'KZ']);
+
+// Countries whose dataset continent doesn't match where players would look
+const CONTINENT_OVERRIDES: Record<string, Region> = {
+    MV: 'asia'  // Listed as Africa
+};
+
+// Cities smaller than this are hard - landmarks and islands have no population and count as medium
+const HARD_BELOW_POPULATION = 500_000;
+
+function getDifficulty(city: City): QuestionDifficulty {
+    if (WORLD_FAMOUS_CITIES.has(city.name)) return 'easy';
+    if (city.population !== undefined && city.population < HARD_BELOW_POPULATION) return 'hard';
+    return 'medium';
+}
+
+function getContinent(city: City, iso2: string | null): Region {
+    if (!iso2 || TRANSCONTINENTAL_COUNTRIES.has(iso2)) return getRegion(city.lat, city.lon);
+    return CONTINENT_OVERRIDES[iso2] ?? getCountryRegion(iso2) ?? getRegion(city.lat, city.lon);
+}
+
+function enrichCity(city: City, warn: (message: string) => void): EnrichedCity {
+    const named = getCountryCodeByName(city.country);
+    const found = getCountryCodeAt(city.lat, city.lon);
+    const nearNamed = named !== null && getDistanceToCountry(city.lat, city.lon, named) <= NEAR_LISTED_COUNTRY_KM;
+    const iso2 = nearNamed ? named : found ?? named;
+
+    if (!iso2) {
+        warn(`${city.name}: not inside any country and "${city.country}" is unknown`);
+    } else if (named && named !== iso2) {
+        // Expected for territories the dataset keeps apart, e.g. French Polynesia
+        console.log(`  ${city.name}: lies in ${iso2}, listed as ${city.country} (${named})`);
+    }
+
+    return {
+        ...city,
+        iso2,
+        continent: getContinent(city, iso2),
+        difficulty: getDifficulty(city)
+    };
+}
+
+function main() {
+    try {
+        const outputPath = path.join(process.cwd(), 'server', 'cities-enriched.json');
+        const warnings: string[] = [];
+
+        console.log(`Enriching ${cities.length} cities...`);
+        const enriched = cities.map(city => enrichCity(city, message => warnings.push(message)));
+
+        console.log(`\nWriting to ${path.relative(process.cwd(), outputPath)}...`);
+        fs.writeFileSync(outputPath, JSON.stringify(enriched, null, 2) + '\n');
+
+        const count = <K extends 'continent' | 'difficulty'>(key: K) =>
+            enriched.reduce<Record<string, number>>((totals, city) => {
+                totals[city[key]] = (totals[city[key]] || 0) + 1;
+                return totals;
+            }, {});
+
+        console.log(`\n=== Summary ===`);
+        console.log(`Total cities: ${enriched.length}`);
+        console.log('By continent:', count('continent'));
+        console.log('By difficulty:', count('difficulty'));
+        if (warnings.length > 0) {
+            console.log(`\n=== Warnings ===`);
+            warnings.forEach(warning => console.log(`  ${warning}`));
+        }
+
+        process.exit(0);
+    } catch (error) {
+        console.error('Error:', error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,349 @@
+#!/usr/bin/env node
+/**
+ * Load Test
+ *
+ * Fills a party on a local game server with simulated players and plays a
+ * whole game. Players join and answer like the bot panel does (a random pin
+ * with a recorded path), but after human-like delays, and the party host
+ * moves on after each reveal. Prints latency percentiles and message sizes.
+ *
+ * Usage: npm run load-test -- --players 100 --rounds 3
+ *
+ * Options:
+ *   --url <ws://...>     Game server, must be local (default ws://localhost:3003)
+ *   --players <n>        Simulated players (default 50)
+ *   --rounds <n>         Rounds to play (default 3)
+ *   --min-delay <ms>     Fastest answer after a question (default 2000)
+ *   --max-delay <ms>     Slowest answer after a question (default 10000)
+ *   --time-limit <s>     Seconds per round, 0 = wait for everyone (default 0)
+ *   --pack <id>          Question pack (default: the server's default)
+ *   --join-batch <n>     Players connecting at the same time (default 20)
+ */
+
+import { parseArgs } from 'util';
+import WebSocket from 'ws';
+import { generateRandomAnswer } from '../src/botMovementGenerator';
+import { PROTOCOL_VERSION, type ServerMessage, type MessageOfType } from '../shared/protocol';
+
+interface Options {
+    url: string;
+    players: number;
+    rounds: number;
+    minDelay: number;
+    maxDelay: number;
+    timeLimit: number;
+    pack?: string;
+    joinBatch: number;
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const CONNECT_TIMEOUT_MS = 10000;
+const NEXT_ROUND_DELAY_MS = 1000;      // Time the party host "looks at" the reveal
+const ROUND_SLACK_MS = 20000;          // Allowance per round on top of answer delays before giving up
+
+function parseOptions(): Options {
+    const { values } = parseArgs({
+        options: {
+            'url': { type: 'string', default: 'ws://localhost:3003' },
+            'players': { type: 'string', default: '50' },
+            'rounds': { type: 'string', default: '3' },
+            'min-delay': { type: 'string', default: '2000' },
+            'max-delay': { type: 'string', default: '10000' },
+            'time-limit': { type: 'string', default: '0' },
+            'pack': { type: 'string' },
+            'join-batch': { type: 'string', default: '20' }
+        }
+    });
+
+    const toNumber = (name: string, value: string | undefined, min: number): number => {
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < min) {
+            throw new Error(`--${name} must be a whole number of at least ${min}`);
+        }
+        return number;
+    };
+
+    const options: Options = {
+        url: values.url!,
+        players: toNumber('players', values.players, 1),
+        rounds: toNumber('rounds', values.rounds, 1),
+        minDelay: toNumber('min-delay', values['min-delay'], 0),
+        maxDelay: toNumber('max-delay', values['max-delay'], 0),
+        timeLimit: toNumber('time-limit', values['time-limit'], 0),
+        pack: values.pack,
+        joinBatch: toNumber('join-batch', values['join-batch'], 1)
+    };
+
+    // Never point a few hundred fake players at a shared server
+    if (!LOCAL_HOSTS.includes(new URL(options.url).hostname)) {
+        throw new Error(`--url must point at a local server (${LOCAL_HOSTS.join(', ')})`);
+    }
+    if (options.maxDelay < options.minDelay) {
+        throw new Error('--max-delay must not be below --min-delay');
+    }
+    return options;
+}
+
+// ===== Measurements =====
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.ceil((p / 100) * sorted.length) - 1;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
+
+class Stats {
+    private latencies = new Map<string, number[]>();
+    private messages = new Map<string, { count: number; bytes: number; max: number }>();
+    errors = 0;
+
+    addLatency(metric: string, ms: number): void {
+        if (!this.latencies.has(metric)) this.latencies.set(metric, []);
+        this.latencies.get(metric)!.push(ms);
+    }
+
+    addMessage(key: string, bytes: number): void {
+        const entry = this.messages.get(key) ?? { count: 0, bytes: 0, max: 0 };
+        entry.count++;
+        entry.bytes += bytes;
+        entry.max = Math.max(entry.max, bytes);
+        this.messages.set(key, entry);
+    }
+
+    report(): void {
+        console.log('\nLatency (ms)');
+        console.table(Object.fromEntries([...this.latencies].map(([metric, samples]) => {
+            const sorted = [...samples].sort((a, b) => a - b);
+            return [metric, {
+                samples: sorted.length,
+                p50: Math.round(percentile(sorted, 50)),
+                p90: Math.round(percentile(sorted, 90)),
+                p99: Math.round(percentile(sorted, 99)),
+                max: Math.round(sorted[sorted.length - 1])
+            }];
+        })));
+
+        console.log('\nMessages (bytes)');
+        console.table(Object.fromEntries([...this.messages]
+            .sort((a, b) => b[1].bytes - a[1].bytes)
+            .map(([key, { count, bytes, max }]) => [key, {
+                count,
+                avg: Math.round(bytes / count),
+                max,
+                total: bytes
+            }])));
+
+        if (this.errors > 0) {
+            console.log(`\n✗ ${this.errors} error message(s) from the server`);
+        }
+    }
+}
+
+// ===== Connections =====
+
+/**
+ * One WebSocket, with every message size recorded
+ */
+class Client {
+    private ws: WebSocket | null = null;
+    private handlers: ((message: ServerMessage) => void)[] = [];
+
+    constructor(private url: string, private stats: Stats, private role: 'host' | 'player') {}
+
+    open(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const ws = new WebSocket(this.url);
+            const timer = setTimeout(() => reject(new Error(`Could not connect to ${this.url}`)), CONNECT_TIMEOUT_MS);
+
+            ws.on('open', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            ws.on('error', (error) => {
+                clearTimeout(timer);
+                reject(error);
+            });
+            ws.on('message', (data: Buffer) => {
+                const message = JSON.parse(data.toString()) as ServerMessage;
+                this.stats.addMessage(`${this.role} ← ${message.type}`, data.length);
+                if (message.type === 'error') {
+                    this.stats.errors++;
+                    console.warn(`  Server error (${message.code}): ${message.message}`);
+                }
+                this.handlers.forEach(handler => handler(message));
+            });
+            this.ws = ws;
+        });
+    }
+
+    send(message: object): void {
+        const data = JSON.stringify(message);
+        this.stats.addMessage(`${this.role} → ${(message as { type: string }).type}`, Buffer.byteLength(data));
+        this.ws?.send(data);
+    }
+
+    onMessage(handler: (message: ServerMessage) => void): void {
+        this.handlers.push(handler);
+    }
+
+    waitFor<K extends ServerMessage['type']>(type: K, timeoutMs: number): Promise<MessageOfType<ServerMessage, K>> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${type}`)), timeoutMs);
+            this.onMessage(message => {
+                if (message.type === type) {
+                    clearTimeout(timer);
+                    resolve(message as MessageOfType<ServerMessage, K>);
+                }
+            });
+        });
+    }
+
+    close(): void {
+        this.ws?.close();
+    }
+}
+
+// ===== Simulated Game =====
+
+/** When the server should have revealed the current round, for reveal latency */
+interface RoundTiming {
+    round: number;
+    deadline: number | null;
+    answersSent: number;
+    allAnsweredAt: number | null;
+}
+
+class SimulatedPlayer {
+    client: Client;
+    isFirst = false;
+    private answerTimer: ReturnType<typeof setTimeout> | null = null;
+    private answerSentAt = 0;
+    private maxRounds = 0;
+
+    constructor(private name: string, private options: Options, private stats: Stats, private timing: RoundTiming, private playerCount: number) {
+        this.client = new Client(options.url, stats, 'player');
+        this.client.onMessage(message => this.handleMessage(message));
+    }
+
+    async join(code: string): Promise<void> {
+        await this.client.open();
+        const sentAt = performance.now();
+        this.client.send({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: this.name, code });
+        const joined = await this.client.waitFor('joined', CONNECT_TIMEOUT_MS);
+        this.stats.addLatency('join', performance.now() - sentAt);
+        this.isFirst = joined.isFirst;
+    }
+
+    private handleMessage(message: ServerMessage): void {
+        switch (message.type) {
+            case 'game-start':
+                this.maxRounds = message.maxRounds;
+                break;
+
+            case 'question':
+                // Server and players share this machine's clock
+                this.stats.addLatency('question delivery', Date.now() - message.serverTime);
+                if (this.isFirst) {
+                    Object.assign(this.timing, { round: message.round, deadline: message.deadline, answersSent: 0, allAnsweredAt: null });
+                }
+                this.scheduleAnswer();
+                break;
+
+            case 'player-answered':
+                if (message.playerName === this.name) {
+                    this.stats.addLatency('answer ack', performance.now() - this.answerSentAt);
+                }
+                break;
+
+            case 'reveal': {
+                if (this.answerTimer) clearTimeout(this.answerTimer); // Too slow for the time limit
+                this.answerTimer = null;
+
+                const revealDueAt = this.timing.allAnsweredAt ?? this.timing.deadline;
+                if (revealDueAt !== null) {
+                    this.stats.addLatency('reveal delivery', Date.now() - revealDueAt);
+                }
+                if (this.isFirst && message.round < this.maxRounds) {
+                    setTimeout(() => this.client.send({ type: 'next-round' }), NEXT_ROUND_DELAY_MS);
+                }
+                break;
+            }
+        }
+    }
+
+    /** Most people answer mid-way through the window, few right at its edges */
+    private getAnswerDelay(): number {
+        const { minDelay, maxDelay } = this.options;
+        return minDelay + ((Math.random() + Math.random()) / 2) * (maxDelay - minDelay);
+    }
+
+    /** The recorded path must fit between the question and the answer, or the server flags it */
+    private scheduleAnswer(): void {
+        const answer = generateRandomAnswer();
+        const pathMs = answer.positions[answer.positions.length - 1].timestamp;
+        this.answerTimer = setTimeout(() => this.answer(answer), Math.max(this.getAnswerDelay(), pathMs));
+    }
+
+    private answer({ lat, lon, positions }: ReturnType<typeof generateRandomAnswer>): void {
+        this.answerTimer = null;
+        this.answerSentAt = performance.now();
+        this.client.send({ type: 'submit-answer', lat, lon, positions });
+
+        if (++this.timing.answersSent === this.playerCount) {
+            this.timing.allAnsweredAt = Date.now();
+        }
+    }
+}
+
+async function main(): Promise<void> {
+    const options = parseOptions();
+    console.log(`=== Load test: ${options.players} players, ${options.rounds} rounds against ${options.url} ===\n`);
+
+    const stats = new Stats();
+    const host = new Client(options.url, stats, 'host');
+    await host.open();
+    host.send({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION });
+    const { code } = await host.waitFor('host-info', CONNECT_TIMEOUT_MS);
+    console.log(`Party ${code} created`);
+
+    const timing: RoundTiming = { round: 0, deadline: null, answersSent: 0, allAnsweredAt: null };
+    const players = Array.from({ length: options.players }, (_, i) =>
+        new SimulatedPlayer(`Load ${i + 1}`, options, stats, timing, options.players));
+
+    const joinStarted = performance.now();
+    for (let i = 0; i < players.length; i += options.joinBatch) {
+        await Promise.all(players.slice(i, i + options.joinBatch).map(p => p.join(code)));
+    }
+    console.log(`${players.length} players joined in ${Math.round(performance.now() - joinStarted)} ms`);
+
+    const partyHost = players.find(p => p.isFirst);
+    if (!partyHost) throw new Error('No player became the party host');
+
+    // Wait on the host screen - it receives every broadcast, like the real one
+    const roundMs = Math.max(options.maxDelay, options.timeLimit * 1000) + NEXT_ROUND_DELAY_MS + ROUND_SLACK_MS;
+    const finished = host.waitFor('final-results', options.rounds * roundMs);
+    host.onMessage(message => {
+        if (message.type === 'reveal') console.log(`Round ${message.round}/${message.maxRounds} revealed`);
+    });
+
+    const gameStarted = performance.now();
+    partyHost.client.send({
+        type: 'start-game',
+        maxRounds: options.rounds,
+        timeLimit: options.timeLimit,
+        ...(options.pack ? { pack: options.pack } : {})
+    });
+    await finished;
+    console.log(`Game finished in ${Math.round((performance.now() - gameStarted) / 1000)} s`);
+
+    stats.report();
+    players.forEach(p => p.client.close());
+    host.close();
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('\n✗ Load test failed:', (error as Error).message);
+        process.exit(1);
+    });
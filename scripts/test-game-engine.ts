@@ -0,0 +1,911 @@
+#!/usr/bin/env node
+/**
+ * Test script for the game engine
+ * Plays whole games headlessly with fake connections and a fake clock
+ */
+
+import { GameEngine, RECONNECT_GRACE_MS, ROUND_START_DELAY_MS, FINAL_RESULTS_DELAY_MS, type Clock, type Connection } from '../server/gameEngine';
+import { parseCsvPack, WORLD_CITIES_PACK, COUNTRIES_PACK, type QuestionPack } from '../server/questionPacks';
+import { PROTOCOL_VERSION, MAX_RECORDED_POSITIONS, MAX_MESSAGE_BYTES, type ServerMessage, type MessageOfType } from '../shared/protocol';
+import { DAILY_ROUNDS, formatDailySummary, getDailySeed } from '../shared/daily';
+import { isInRegionBounds } from '../shared/geo';
+import { calculateSpeedBonus, formatAnswerTime } from '../shared/scoring';
+import { MAX_REACTIONS_PER_WINDOW, REACTION_WINDOW_MS } from '../shared/reactions';
+import type { GameRecord } from '../shared/types';
+
+/**
+ * Clock that only moves when the test says so
+ */
+class FakeClock implements Clock {
+    private time = 1_000_000;
+    private nextId = 1;
+    private timers = new Map<number, { at: number; callback: () => void }>();
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(callback: () => void, ms: number): number {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.time + ms, callback });
+        return id;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    /** Move time forward, firing due timers in order */
+    advance(ms: number): void {
+        const target = this.time + ms;
+        for (;;) {
+            const due = [...this.timers.entries()]
+                .filter(([, timer]) => timer.at <= target)
+                .sort((a, b) => a[1].at - b[1].at)[0];
+            if (!due) break;
+            this.timers.delete(due[0]);
+            this.time = due[1].at;
+            due[1].callback();
+        }
+        this.time = target;
+    }
+}
+
+/**
+ * Connection that records everything the engine sends it
+ */
+class FakeConnection implements Connection {
+    received: ServerMessage[] = [];
+
+    constructor(private engine: GameEngine) {
+        engine.connect(this);
+    }
+
+    send(message: ServerMessage): void {
+        this.received.push(message);
+    }
+
+    command(message: object): void {
+        this.engine.handleMessage(this, JSON.stringify(message));
+    }
+
+    last<K extends ServerMessage['type']>(type: K): MessageOfType<ServerMessage, K> | undefined {
+        const matching = this.received.filter((m): m is MessageOfType<ServerMessage, K> => m.type === type);
+        return matching[matching.length - 1];
+    }
+
+    count(type: ServerMessage['type']): number {
+        return this.received.filter(m => m.type === type).length;
+    }
+}
+
+// Deterministic RNG (mulberry32)
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function check(condition: boolean, message: string): void {
+    if (!condition) throw new Error(message);
+    console.log(`  ✓ ${message}`);
+}
+
+function setupRoom(engine: GameEngine, names: string[]) {
+    const host = new FakeConnection(engine);
+    host.command({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION });
+    const code = host.last('host-info')!.code;
+
+    const players = names.map(name => {
+        const player = new FakeConnection(engine);
+        player.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name, code });
+        return player;
+    });
+    return { host, code, players };
+}
+
+console.log('=== Testing Game Engine ===\n');
+
+function runTests() {
+    try {
+        // Test 1: Full game with everyone answering
+        console.log('Test 1: Two-round game');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(42) });
+            const finished: GameRecord[] = [];
+            engine.on('game-finished', (record) => finished.push(record));
+
+            const { host, code, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            check(/^[A-Z]{4}$/.test(code), `Room created with code ${code}`);
+            check(alice.last('joined')?.isFirst === true && bob.last('joined')?.isFirst === false, 'First player to join is the party host');
+
+            bob.command({ type: 'start-game', maxRounds: 2 });
+            check(host.count('game-start') === 0, 'Only the first player can start the game');
+
+            alice.command({ type: 'start-game', maxRounds: 2, scoring: 'linear' });
+            check(host.last('game-start')?.scoring === 'linear', 'Game starts with the chosen scoring model');
+
+            clock.advance(ROUND_START_DELAY_MS);
+            const question = bob.last('question');
+            check(question?.round === 1, `Round 1 asks for ${question?.question.text}, ${question?.question.country}`);
+            check(question !== undefined && !('correctAnswer' in question.question), 'Question is sent without its answer');
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(host.count('reveal') === 0, 'No reveal until everyone has answered');
+            bob.command({ type: 'submit-answer', lat: 10, lon: 10 });
+            const reveal = host.last('reveal')!;
+            check(reveal.results.length === 2 && reveal.results.every(r => r.points >= 0), 'Reveal scores both answers');
+
+            alice.command({ type: 'next-round' });
+            check(host.last('question')?.round === 2, 'Party host starts round 2');
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            const final = host.last('final-results');
+            check(final?.players.length === 2, 'Final results sent after the last round');
+            check(finished[0]?.code === code && finished[0].rounds.length === 2 && finished[0].players[0].score >= finished[0].players[1].score, 'Finished game is reported with every round and final standings');
+        }
+
+        // Test 2: Time limit reveals without waiting for everyone
+        console.log('\nTest 2: Round time limit');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(7) });
+            const { host, players: [alice] } = setupRoom(engine, ['Alice', 'Bob']);
+
+            alice.command({ type: 'start-game', maxRounds: 1, timeLimit: 10 });
+            clock.advance(ROUND_START_DELAY_MS);
+            check(host.last('question')?.deadline === clock.now() + 10000, 'Question carries the server deadline');
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            clock.advance(10000);
+            const results = host.last('reveal')?.results ?? [];
+            check(results.some(r => r.name === 'Bob' && r.missed && r.points === 0), 'Player who ran out of time scores 0');
+        }
+
+        // Test 3: Reconnecting with a session token
+        console.log('\nTest 3: Resume after disconnect');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(1) });
+            const { host, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            const token = bob.last('joined')!.token;
+
+            engine.disconnect(bob);
+            clock.advance(RECONNECT_GRACE_MS - 1000);
+            const bobAgain = new FakeConnection(engine);
+            bobAgain.command({ type: 'resume', protocolVersion: PROTOCOL_VERSION, token });
+            check(bobAgain.last('joined')?.resumed === true, 'Player resumes their seat within the grace period');
+            check(bobAgain.count('state-snapshot') === 1, 'Resumed player gets a state snapshot');
+
+            engine.disconnect(alice);
+            clock.advance(RECONNECT_GRACE_MS);
+            const players = host.last('player-list')?.players ?? [];
+            check(players.length === 1 && players[0].name === 'Bob' && players[0].isFirst, 'Seat is dropped after the grace period and Bob becomes party host');
+
+            const bobTab = new FakeConnection(engine);
+            bobTab.command({ type: 'resume', protocolVersion: PROTOCOL_VERSION, token });
+            check(bobTab.last('joined')?.resumed === true && bobAgain.count('kicked') === 1, 'Resuming from a second screen takes the seat over');
+            bobAgain.command({ type: 'start-game', maxRounds: 1 });
+            check(host.count('game-start') === 0, 'The replaced screen can no longer play as the player');
+            bobTab.command({ type: 'start-game', maxRounds: 1 });
+            check(host.count('game-start') === 1, 'The new screen plays on');
+        }
+
+        // Test 4: Protocol errors
+        console.log('\nTest 4: Invalid messages');
+        {
+            const engine = new GameEngine({ clock: new FakeClock() });
+            const client = new FakeConnection(engine);
+
+            client.command({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION + 1 });
+            check(client.last('error')?.code === 'protocol-mismatch', 'Handshake from another protocol version is rejected');
+
+            client.command({ type: 'submit-answer', lat: 'north' });
+            check(client.last('error')?.code === 'invalid-message', 'Malformed message is rejected');
+
+            client.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Alice', code: 'ZZZZ' });
+            check(client.last('error')?.code === 'room-not-found', 'Joining an unknown room fails');
+        }
+
+        // Test 5: Question packs
+        console.log('\nTest 5: Question packs');
+        {
+            const csvPack = parseCsvPack('nordic-capitals', [
+                'text,lat,lon,country,category',
+                'Oslo,59.9139,10.7522,Norway,Capital',
+                'Stockholm,59.3293,18.0686,Sweden,Capital',
+                '"Copenhagen, the city",55.6761,12.5683,Denmark,Capital',
+                'Nowhere,200,0,,'
+            ].join('\n'), () => {});
+            check(csvPack.questions.length === 3 && csvPack.questions[2].text === 'Copenhagen, the city', 'CSV pack parses quoted fields and skips invalid rows');
+
+            const clock = new FakeClock();
+            const packs: QuestionPack[] = [WORLD_CITIES_PACK, csvPack];
+            const engine = new GameEngine({ clock, random: seededRandom(3), questionPacks: packs });
+            const { host, players: [alice] } = setupRoom(engine, ['Alice']);
+            check(alice.last('joined')?.packs.some(p => p.id === 'nordic-capitals') === true, 'Joined players are offered the loaded packs');
+
+            alice.command({ type: 'start-game', maxRounds: 10, pack: 'nordic-capitals' });
+            const start = host.last('game-start')!;
+            check(start.pack.id === 'nordic-capitals' && start.maxRounds === 3, 'Round count is capped at the pack size');
+
+            clock.advance(ROUND_START_DELAY_MS);
+            const asked: string[] = [];
+            for (let round = 1; round <= 3; round++) {
+                asked.push(host.last('question')!.question.text);
+                alice.command({ type: 'submit-answer', lat: 60, lon: 15 });
+                alice.command({ type: 'next-round' });
+            }
+            check(new Set(asked).size === 3, `No question repeats within a game (${asked.join(' / ')})`);
+        }
+
+        // Test 6: Country questions
+        console.log('\nTest 6: Country questions');
+        {
+            const mongolia = COUNTRIES_PACK.questions.find(q => q.countryCode === 'MN')!;
+            check(mongolia !== undefined && mongolia.mode === 'country', 'Built-in country pack includes Mongolia');
+
+            const clock = new FakeClock();
+            const pack: QuestionPack = { id: 'mongolia', name: 'Mongolia', questions: [mongolia] };
+            const engine = new GameEngine({ clock, questionPacks: [WORLD_CITIES_PACK, pack] });
+            const { host, players: [alice, bob, carol] } = setupRoom(engine, ['Alice', 'Bob', 'Carol']);
+
+            alice.command({ type: 'start-game', maxRounds: 1, pack: 'mongolia', scoring: 'linear' });
+            clock.advance(ROUND_START_DELAY_MS);
+            alice.command({ type: 'submit-answer', lat: 47.9, lon: 106.9 });   // Ulaanbaatar
+            bob.command({ type: 'submit-answer', lat: 39.9, lon: 116.4 });     // Beijing
+            carol.command({ type: 'submit-answer', lat: -33.8, lon: 151.2 });  // Sydney
+
+            const results = host.last('reveal')!.results;
+            const byName = (name: string) => results.find(r => r.name === name)!;
+            check(byName('Alice').distance === 0 && byName('Alice').inCorrectCountry === true && byName('Alice').points === 1000, 'Pin inside the country scores full points');
+            check(byName('Bob').points > 900 && byName('Bob').points < 1000, `Near miss gets partial credit (${byName('Bob').distance} km from the border)`);
+            check(byName('Carol').points < byName('Bob').points, 'Far miss scores less than a near miss');
+            check(host.last('reveal')!.correct.countryCode === 'MN', 'Reveal names the target country for the host to raise');
+        }
+
+        // Test 7: Spectators
+        console.log('\nTest 7: Spectators');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(5) });
+            const { host, code, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+
+            const sam = new FakeConnection(engine);
+            sam.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Sam', code, spectator: true });
+            check(sam.last('joined')?.spectator === true && sam.last('joined')?.isFirst === false, 'Spectator joins without becoming a player');
+            const list = host.last('player-list')!;
+            check(list.players.length === 2 && list.spectators.join() === 'Sam', 'Host lists spectators separately from players');
+
+            alice.command({ type: 'start-game', maxRounds: 1 });
+            clock.advance(ROUND_START_DELAY_MS);
+            check(sam.last('question')?.round === 1, 'Spectator sees the question');
+
+            sam.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(host.count('player-answered') === 0, 'Spectator answers are ignored');
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(sam.last('player-answered')?.playerName === 'Alice', 'Spectator sees the answer progress');
+            bob.command({ type: 'submit-answer', lat: 10, lon: 10 });
+            const reveal = sam.last('reveal');
+            check(reveal !== undefined && reveal.results.every(r => r.name !== 'Sam'), 'Round reveals without waiting for the spectator, who is not scored');
+        }
+
+        // Test 8: Teams
+        console.log('\nTest 8: Team mode');
+        {
+            const clock = new FakeClock();
+            const pack: QuestionPack = {
+                id: 'origin',
+                name: 'Origin',
+                questions: [{ id: 'origin-1', text: 'Null Island', correctAnswer: { lat: 0, lon: 0 } }]
+            };
+            const engine = new GameEngine({ clock, questionPacks: [WORLD_CITIES_PACK, pack] });
+            const { host, players: [alice, bob, carol, dave] } = setupRoom(engine, ['Alice', 'Bob', 'Carol', 'Dave']);
+
+            bob.command({ type: 'set-teams', teamCount: 2 });
+            check(host.last('player-list')?.teams === null, 'Only the party host can turn on teams');
+
+            alice.command({ type: 'set-teams', teamCount: 2, teamScoring: 'centroid' });
+            const teams = host.last('player-list')!.players.map(p => p.team);
+            check(teams.filter(t => t === 0).length === 2 && teams.filter(t => t === 1).length === 2, 'Players are dealt evenly into two teams');
+
+            // Alice + Bob vs Carol + Dave
+            bob.command({ type: 'choose-team', team: 0 });
+            carol.command({ type: 'choose-team', team: 1 });
+            dave.command({ type: 'choose-team', team: 1 });
+            alice.command({ type: 'choose-team', team: 0 });
+            check(host.last('player-list')!.players.every(p => p.team === (p.name < 'C' ? 0 : 1)), 'Players can pick their team');
+
+            alice.command({ type: 'start-game', maxRounds: 1, pack: 'origin', scoring: 'linear' });
+            check(host.last('game-start')?.teams?.count === 2, 'Game starts in team mode');
+            clock.advance(ROUND_START_DELAY_MS);
+
+            // Red pins straddle the answer, so their center is spot on; Green's both miss to the north
+            alice.command({ type: 'submit-answer', lat: 0, lon: -10 });
+            bob.command({ type: 'submit-answer', lat: 0, lon: 10 });
+            carol.command({ type: 'submit-answer', lat: 5, lon: 0 });
+            dave.command({ type: 'submit-answer', lat: 5, lon: 0 });
+
+            const reveal = host.last('reveal')!;
+            const [red, green] = [0, 1].map(team => reveal.teamResults!.find(r => r.team === team)!);
+            check(red.distance === 0 && red.points === 1000, 'Team center between two misses lands on the answer');
+            check(green.distance! > 500 && green.points < red.points, `Other team scores from its own center (${green.distance} km)`);
+            check(reveal.teamStandings?.[0].team === 0 && reveal.teamStandings[0].members.join() === 'Alice,Bob', 'Team standings are ranked with their members');
+
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            check(host.last('final-results')?.teamStandings?.[0].score === 1000, 'Final results include team standings');
+        }
+
+        // Test 9: Moderation
+        console.log('\nTest 9: Host moderation');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(9) });
+            const { host, code, players: [alice, bob, carol] } = setupRoom(engine, ['Alice', 'Bob', 'Carol']);
+
+            const impostor = new FakeConnection(engine);
+            impostor.command({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION, code });
+            check(impostor.last('host-info')?.code !== code, 'Join code alone does not reconnect as host');
+            const returning = new FakeConnection(engine);
+            returning.command({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION, code, hostToken: host.last('host-info')!.hostToken });
+            check(returning.last('host-info')?.code === code, 'Host token reconnects to the same room');
+
+            bob.command({ type: 'kick-player', name: 'Carol' });
+            check(bob.last('error')?.code === 'not-allowed' && carol.count('kicked') === 0, 'Other players cannot moderate');
+            bob.command({ type: 'reset-game' });
+            check(host.count('game-reset') === 0, 'Other players cannot reset the party');
+
+            host.command({ type: 'kick-player', name: 'Carol' });
+            check(carol.count('kicked') === 1 && host.last('player-list')!.players.length === 2, 'Host screen kicks a player');
+
+            alice.command({ type: 'start-game', maxRounds: 3, timeLimit: 30 });
+            clock.advance(ROUND_START_DELAY_MS);
+            const firstQuestion = host.last('question')!.question.text;
+
+            clock.advance(10000);
+            alice.command({ type: 'pause-round' });
+            check(bob.count('round-paused') === 1, 'Party host pauses the round');
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            clock.advance(60000);
+            check(host.count('reveal') === 0 && host.count('player-answered') === 0, 'Paused round neither times out nor takes answers');
+
+            host.command({ type: 'resume-round' });
+            const resumed = bob.last('round-resumed');
+            check(resumed?.deadline === clock.now() + 20000, 'Resuming gives back the time that was left');
+
+            alice.command({ type: 'skip-question' });
+            const replacement = host.last('question')!;
+            check(replacement.round === 1 && replacement.question.text !== firstQuestion && host.count('reveal') === 0, `Skipped question is replaced without scoring (${replacement.question.text})`);
+
+            host.command({ type: 'end-game' });
+            const final = host.last('final-results');
+            check(final !== undefined && final.players.every(p => p.score === 0), 'Ending early sends final results straight away');
+            alice.command({ type: 'next-round' });
+            check(host.count('question') === 2, 'No more rounds after the game is ended');
+
+            const pair = parseCsvPack('nordic-capitals', 'text,lat,lon\nOslo,59.9139,10.7522\nStockholm,59.3293,18.0686', () => {});
+            const short = new GameEngine({ clock, random: seededRandom(9), questionPacks: [pair] });
+            const { host: shortHost, players: [dave] } = setupRoom(short, ['Dave']);
+            dave.command({ type: 'start-game', maxRounds: 2, pack: pair.id });
+            clock.advance(ROUND_START_DELAY_MS);
+            dave.command({ type: 'skip-question' });
+            check(shortHost.last('question')?.maxRounds === 1, 'Skipping without a spare question shortens the game');
+            dave.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            dave.command({ type: 'next-round' });
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            check(shortHost.count('final-results') === 1 && shortHost.count('question') === 2, 'Skip, then play to the end');
+        }
+
+        // Test 10: Server-side bots
+        console.log('\nTest 10: Bot opponents');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(10) });
+            const closed: string[] = [];
+            engine.on('room-closed', (code) => closed.push(code));
+
+            const host = new FakeConnection(engine);
+            host.command({ type: 'host-connect', protocolVersion: PROTOCOL_VERSION });
+            const code = host.last('host-info')!.code;
+            host.command({ type: 'add-bot', difficulty: 'expert' });
+            host.command({ type: 'add-bot', difficulty: 'easy' });
+            host.command({ type: 'add-bot', difficulty: 'impossible' });
+            const bots = host.last('player-list')!.players;
+            check(bots.length === 2 && bots[0].bot === 'expert' && bots[1].bot === 'easy', `Host screen seats bots (${bots.map(b => b.name).join(', ')})`);
+            check(bots.every(b => !b.isFirst), 'Bots never host the party');
+
+            const alice = new FakeConnection(engine);
+            alice.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Alice', code });
+            check(alice.last('joined')?.isFirst === true, 'First human to join hosts the party');
+
+            const rounds = 20;
+            alice.command({ type: 'start-game', maxRounds: rounds, timeLimit: 30 });
+            clock.advance(ROUND_START_DELAY_MS);
+            const misses: Record<string, number[]> = { [bots[0].name]: [], [bots[1].name]: [] };
+            let botRounds = 0;
+            for (let round = 1; round <= rounds; round++) {
+                alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+                clock.advance(29000); // Just short of the deadline
+                const reveal = host.last('reveal')!;
+                const botResults = reveal.results.filter(r => r.name in misses);
+                if (reveal.round === round && botResults.every(r => !r.missed && (r.positions?.length ?? 0) >= 20)) botRounds++;
+                botResults.forEach(r => misses[r.name].push(r.distance ?? 0));
+                alice.command({ type: 'next-round' });
+            }
+            const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+            const expert = mean(misses[bots[0].name]);
+            const easy = mean(misses[bots[1].name]);
+            check(botRounds === rounds, 'Bots answer every round before the deadline, with a recorded pin path');
+            check(expert < easy, `Expert bot lands closer than the easy bot (${Math.round(expert)} vs ${Math.round(easy)} km)`);
+
+            alice.command({ type: 'kick-player', name: bots[1].name });
+            check(host.last('player-list')!.players.length === 2, 'Party host removes a bot');
+
+            const finished: GameRecord[] = [];
+            let roundsStarted = 0;
+            engine.on('game-finished', (record) => finished.push(record));
+            engine.on('round-started', () => roundsStarted++);
+            engine.disconnect(alice);
+            clock.advance(RECONNECT_GRACE_MS - 1000);
+            host.command({ type: 'play-again' });
+            engine.disconnect(host);
+            clock.advance(1000);
+            check(closed.includes(code), 'Room with only bots left is closed');
+            clock.advance(ROUND_START_DELAY_MS + 60000);
+            check(roundsStarted === 0 && finished.length === 0, 'A closed room stops playing');
+        }
+
+        // Test 11: Answer plausibility
+        console.log('\nTest 11: Answer checks');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(11) });
+            const { host, players: [alice, bob, carol] } = setupRoom(engine, ['Alice', 'Bob', 'Carol']);
+            alice.command({ type: 'start-game', maxRounds: 1 });
+            clock.advance(ROUND_START_DELAY_MS);
+            clock.advance(5000);
+
+            alice.command({ type: 'submit-answer', lat: 95, lon: 0 });
+            check(alice.last('error')?.code === 'invalid-message', 'Latitude beyond the pole is rejected');
+            const tooMany = Array.from({ length: MAX_RECORDED_POSITIONS + 1 }, (_, i) => ({ lat: 0, lon: 0, timestamp: i }));
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0, positions: tooMany });
+            check(alice.count('error') === 2 && host.count('player-answered') === 0, 'Recording over the length cap is rejected');
+            engine.handleMessage(alice, JSON.stringify({ type: 'submit-answer', lat: 0, lon: 0, padding: 'x'.repeat(MAX_MESSAGE_BYTES) }));
+            check(alice.count('error') === 3, 'Oversized message is rejected');
+
+            const path = [{ lat: 40, lon: 0, timestamp: 0 }, { lat: 45, lon: 5, timestamp: 800 }, { lat: 48.8, lon: 2.3, timestamp: 1600 }];
+            alice.command({ type: 'submit-answer', lat: 48.9, lon: 2.4, positions: path });
+            check(host.count('answer-flagged') === 0 && host.count('player-answered') === 1, 'Ordinary recorded path is accepted without a flag');
+
+            const teleport = [{ lat: 48.8, lon: 2.3, timestamp: 0 }, { lat: -33.9, lon: 151.2, timestamp: 16 }, { lat: -33.9, lon: 151.2, timestamp: 60000 }];
+            bob.command({ type: 'submit-answer', lat: 35.7, lon: 139.7, positions: teleport });
+            const flagged = host.last('answer-flagged');
+            check(flagged?.playerName === 'Bob' && flagged.reasons.length === 3, `Implausible path is flagged (${flagged?.reasons.join('; ')})`);
+            check(alice.count('answer-flagged') === 0, 'Only host screens hear about flagged answers');
+
+            carol.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(host.last('reveal')?.results.some(r => r.name === 'Bob' && r.distance !== null) === true, 'Flagged answer still counts');
+        }
+
+        // Test 12: Daily challenge
+        console.log('\nTest 12: Daily challenge');
+        {
+            const playDaily = (engineSeed: number, seed?: string, skip = false) => {
+                const clock = new FakeClock();
+                const engine = new GameEngine({ clock, random: seededRandom(engineSeed) });
+                const player = new FakeConnection(engine);
+                player.command({ type: 'start-daily', protocolVersion: PROTOCOL_VERSION, name: 'Solo', seed });
+                clock.advance(ROUND_START_DELAY_MS);
+                const questions: string[] = [];
+                for (let round = 1; round <= DAILY_ROUNDS; round++) {
+                    if (skip) player.command({ type: 'skip-question' });
+                    questions.push(player.last('question')!.question.text);
+                    player.command({ type: 'submit-answer', lat: 0, lon: 0 });
+                    player.command({ type: 'next-round' });
+                }
+                clock.advance(FINAL_RESULTS_DELAY_MS);
+                return { engine, player, questions };
+            };
+
+            const first = playDaily(1, '2026-10-19');
+            const again = playDaily(2, ' 2026-10-19 ');
+            check(first.player.last('joined')?.isFirst === true && first.player.last('game-start')?.daily === '2026-10-19', 'Daily challenge starts a solo game straight away');
+            check(first.questions.join() === again.questions.join(), `Same seed gives the same cities (${first.questions.join(', ')})`);
+            check(playDaily(4, '2026-10-19', true).questions.join() === first.questions.join(), 'Daily questions cannot be skipped');
+            check(playDaily(1, 'another seed').questions.join() !== first.questions.join(), 'Another seed gives other cities');
+            check(playDaily(3).player.last('game-start')?.daily === getDailySeed(new Date(1_000_000)), "No seed means today's date");
+            check(first.player.last('final-results')?.players.length === 1, 'Daily game ends after five rounds');
+
+            const intruder = new FakeConnection(first.engine);
+            intruder.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Eve', code: first.player.last('joined')!.code });
+            check(intruder.last('error')?.code === 'room-not-found', 'Daily rooms are private');
+
+            const summary = formatDailySummary('2026-10-19', [50, 300, 800, 1500, null], 2400);
+            check(summary === 'JordGlobe Daily 2026-10-19\n🎯🟩🟨🟧⬜ 2400 pts', 'Share summary has one emoji per round');
+        }
+
+        // Test 13: Challenge links
+        console.log('\nTest 13: Challenge links');
+        {
+            const clock = new FakeClock();
+            const finished: GameRecord[] = [];
+            const engine = new GameEngine({ clock, random: seededRandom(13), findGame: (id) => finished.find(r => r.id === id) ?? null });
+            engine.on('game-finished', (record) => finished.push(record));
+
+            const { players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            alice.command({ type: 'start-game', maxRounds: 2, timeLimit: 10, scoring: 'rank' });
+            clock.advance(ROUND_START_DELAY_MS);
+            const asked: string[] = [];
+            for (let round = 1; round <= 2; round++) {
+                const { question } = alice.last('question')!;
+                asked.push(question.text);
+                alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+                if (round === 1) bob.command({ type: 'submit-answer', lat: 10, lon: 10 });
+                if (round === 2) clock.advance(10000); // Bob misses round 2
+                alice.command({ type: 'next-round' });
+            }
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            const gameId = alice.last('final-results')!.gameId!;
+            check(finished[0]?.id === gameId, 'Final results carry the id of the stored game');
+
+            const taken = new FakeConnection(engine);
+            taken.command({ type: 'start-challenge', protocolVersion: PROTOCOL_VERSION, name: 'Alice', gameId });
+            check(taken.last('error')?.code === 'name-taken', "Challenger can't reuse an original player's name");
+            const lost = new FakeConnection(engine);
+            lost.command({ type: 'start-challenge', protocolVersion: PROTOCOL_VERSION, name: 'Carol', gameId: 'nope' });
+            check(lost.last('error')?.code === 'game-not-found', 'Unknown challenge is refused');
+
+            const carol = new FakeConnection(engine);
+            carol.command({ type: 'start-challenge', protocolVersion: PROTOCOL_VERSION, name: 'Carol', gameId });
+            check(carol.last('game-start')?.challenge === gameId && carol.last('game-start')?.scoring === 'rank', 'Challenge starts straight away with the original scoring');
+            clock.advance(ROUND_START_DELAY_MS);
+            check(carol.last('question')?.question.text === asked[0], `Challenge asks the recorded questions in order (${asked.join(', ')})`);
+            carol.command({ type: 'skip-question' });
+            check(carol.count('question') === 1 && carol.last('question')?.question.text === asked[0], 'Challengers cannot skip a recorded question');
+
+            const { lat, lon } = finished[0].rounds[0].correct;
+            carol.command({ type: 'submit-answer', lat, lon });
+            const reveal = carol.last('reveal')!;
+            check(reveal.results.length === 3 && reveal.results.filter(r => r.recorded).length === 2, 'Recorded answers are revealed next to the challenger');
+            check(reveal.results[0].name === 'Carol' && reveal.results[0].points === 2, 'Challenger is scored against the recorded answers');
+
+            carol.command({ type: 'next-round' });
+            check(carol.last('question')?.question.text === asked[1], 'Second round asks the second recorded question');
+            carol.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(carol.last('reveal')?.results.some(r => r.name === 'Bob' && r.missed && r.recorded) === true, 'A recorded miss stays a miss');
+
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            const standings = carol.last('final-results')!.players;
+            check(standings.length === 3 && standings.filter(p => p.recorded).map(p => p.name).sort().join() === 'Alice,Bob', 'Original players stay on the final scoreboard');
+
+            const intruder = new FakeConnection(engine);
+            intruder.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Eve', code: carol.last('joined')!.code });
+            check(intruder.last('error')?.code === 'room-not-found', 'Challenge rooms are private');
+        }
+
+        // Test 14: Hints
+        console.log('\nTest 14: Hints');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(14) });
+            const { host, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            alice.command({ type: 'start-game', maxRounds: 1, scoring: 'linear', hints: true });
+            check(host.last('game-start')?.hints === true, 'Game start announces hints');
+            clock.advance(ROUND_START_DELAY_MS);
+            check(!('country' in alice.last('question')!.question), 'With hints on, location prompts leave out the country');
+
+            alice.command({ type: 'request-hint', hint: 'hemisphere' });
+            const hint = alice.last('hint');
+            check(hint?.hint === 'hemisphere' && /hemisphere$/.test(hint.text), `Hint is sent to the player who asked (${hint?.text})`);
+            check(bob.count('hint') === 0 && host.count('hint') === 0, 'Nobody else sees the hint');
+            alice.command({ type: 'request-hint', hint: 'continent' });
+            alice.command({ type: 'request-hint', hint: 'continent' });
+            check(alice.count('hint') === 3, 'Asking for a hint again repeats it');
+
+            alice.command({ type: 'request-hint', hint: 'clue' as never });
+            check(alice.last('error')?.code === 'invalid-message', 'Unknown hint is rejected');
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            alice.command({ type: 'request-hint', hint: 'country' });
+            check(alice.count('hint') === 3, 'No hints after answering');
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+
+            const results = host.last('reveal')!.results;
+            const aliceResult = results.find(r => r.name === 'Alice')!;
+            const bobResult = results.find(r => r.name === 'Bob')!;
+            check(aliceResult.hints?.join() === 'hemisphere,continent', 'Reveal lists the hints each player took');
+            check(bobResult.hints?.length === 0, 'Players without hints have none listed');
+            check(aliceResult.points === Math.round(bobResult.points * 0.65), `Hints cut the round's points (${bobResult.points} → ${aliceResult.points})`);
+
+            const { players: [carol] } = setupRoom(engine, ['Carol']);
+            carol.command({ type: 'start-game', maxRounds: 1 });
+            clock.advance(ROUND_START_DELAY_MS);
+            check(carol.last('question')?.question.country !== undefined, 'Without hints, location prompts name the country');
+            carol.command({ type: 'request-hint', hint: 'hemisphere' });
+            check(carol.count('hint') === 0 && carol.last('error')?.code === 'not-allowed', 'Hints are refused unless the host turned them on');
+        }
+
+        // Test 15: Reactions
+        console.log('\nTest 15: Reactions');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(15) });
+            const { host, code, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            const watcher = new FakeConnection(engine);
+            watcher.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Watcher', code, spectator: true });
+            alice.command({ type: 'start-game', maxRounds: 1 });
+            clock.advance(ROUND_START_DELAY_MS);
+
+            alice.command({ type: 'reaction', emoji: '👏' });
+            check(host.count('reaction') === 0, 'No reactions while the round is being answered');
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            bob.command({ type: 'submit-answer', lat: 10, lon: 10 });
+            bob.command({ type: 'reaction', emoji: '😭' });
+            const reaction = host.last('reaction');
+            check(reaction?.playerName === 'Bob' && reaction.emoji === '😭', 'Reaction to the results reaches the host screen');
+            check(alice.count('reaction') === 0 && watcher.count('reaction') === 0, 'Only host screens get reactions');
+
+            bob.command({ type: 'reaction', emoji: '💩' as never });
+            check(bob.last('error')?.code === 'invalid-message', 'Emoji outside the reaction set is rejected');
+            watcher.command({ type: 'reaction', emoji: '👏' });
+            check(host.count('reaction') === 1, 'Spectators cannot react');
+
+            for (let i = 0; i < MAX_REACTIONS_PER_WINDOW + 2; i++) alice.command({ type: 'reaction', emoji: '🔥' });
+            check(host.count('reaction') === 1 + MAX_REACTIONS_PER_WINDOW, `A burst is cut off after ${MAX_REACTIONS_PER_WINDOW} reactions`);
+            clock.advance(REACTION_WINDOW_MS);
+            alice.command({ type: 'reaction', emoji: '🔥' });
+            check(host.count('reaction') === 2 + MAX_REACTIONS_PER_WINDOW, 'Reactions are allowed again once the window has passed');
+
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            for (let i = 0; i < MAX_REACTIONS_PER_WINDOW; i++) bob.command({ type: 'reaction', emoji: '👏' });
+            alice.command({ type: 'play-again' });
+            clock.advance(ROUND_START_DELAY_MS);
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            bob.command({ type: 'reaction', emoji: '😮' });
+            check(host.last('reaction')?.emoji === '😮', 'A new game starts with a fresh reaction allowance');
+        }
+
+        // Test 16: Late joiners and play again
+        console.log('\nTest 16: Late join and play again');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(16) });
+            const { host, code, players: [alice, bob] } = setupRoom(engine, ['Alice', 'Bob']);
+            alice.command({ type: 'start-game', maxRounds: 3, scoring: 'linear', catchUp: 'lowest' });
+            clock.advance(ROUND_START_DELAY_MS);
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+
+            const carol = new FakeConnection(engine);
+            carol.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Carol', code });
+            check(carol.last('player-list')!.players.find(p => p.name === 'Carol')?.waiting === true, 'Late joiner waits for the next round');
+            carol.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(host.last('player-answered')?.playerName === 'Alice', 'Late joiner cannot answer the running question');
+
+            bob.command({ type: 'submit-answer', lat: 40, lon: 40 });
+            const firstReveal = host.last('reveal');
+            check(firstReveal?.results.length === 2, 'Round reveals once everyone already playing has answered');
+            const lowest = Math.min(...firstReveal!.results.map(r => r.totalScore));
+
+            alice.command({ type: 'next-round' });
+            const carolEntry = host.last('player-list')!.players.find(p => p.name === 'Carol')!;
+            check(!carolEntry.waiting && carolEntry.score === lowest, `Late joiner starts on the lowest score (${carolEntry.score})`);
+            [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            check(host.last('reveal')?.results.length === 3, 'Late joiner plays from the next round');
+
+            bob.command({ type: 'play-again' });
+            check(bob.last('error')?.code === 'not-allowed', 'Only the host can start another game');
+            alice.command({ type: 'play-again' });
+            check(host.count('game-start') === 1, 'Play again waits for the game to finish');
+
+            alice.command({ type: 'next-round' });
+            [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            check(host.count('final-results') === 1, 'Game finishes');
+
+            alice.command({ type: 'play-again' });
+            const restart = host.last('game-start');
+            check(host.count('game-start') === 2 && restart?.maxRounds === 3 && restart.scoring === 'linear', 'Play again keeps the settings');
+            check(carol.count('game-start') === 1 && alice.count('game-reset') === 0, 'Nobody has to rejoin');
+            clock.advance(ROUND_START_DELAY_MS);
+            check(host.last('question')?.round === 1, 'Play again starts from the first round');
+            [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            check(host.last('reveal')!.results.every(r => r.totalScore === r.points), 'Scores start over');
+
+            const finished: GameRecord[] = [];
+            engine.on('game-finished', (record) => finished.push(record));
+            for (let round = 2; round <= 3; round++) {
+                alice.command({ type: 'next-round' });
+                [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            }
+            host.command({ type: 'end-game' });
+            alice.command({ type: 'play-again' });
+            host.command({ type: 'end-game' });
+            alice.command({ type: 'play-again' });
+            const questionsBefore = host.count('question');
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            check(host.count('final-results') === 3 && finished.length === 1, 'Final results of an ended game do not fire again');
+            check(host.last('final-results')!.gameId === undefined, 'A game ended before its first reveal is not stored');
+            check(host.count('question') === questionsBefore + 1, 'A restarted game asks its first question once');
+
+            [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            for (let round = 2; round <= 3; round++) {
+                alice.command({ type: 'next-round' });
+                [alice, bob, carol].forEach(p => p.command({ type: 'submit-answer', lat: 0, lon: 0 }));
+            }
+            host.command({ type: 'reset-game' });
+            clock.advance(FINAL_RESULTS_DELAY_MS);
+            check(host.count('final-results') === 3 && finished.length === 1, 'Resetting during the final results delay cancels them');
+        }
+
+        // Test 17: Away players
+        console.log('\nTest 17: Away players');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(17) });
+            const { host, players: [alice, bob, carol] } = setupRoom(engine, ['Alice', 'Bob', 'Carol']);
+            alice.command({ type: 'start-game', maxRounds: 2 });
+            clock.advance(ROUND_START_DELAY_MS);
+
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            engine.setAway(bob, true);
+            check(host.last('player-list')!.players.find(p => p.name === 'Bob')?.away === true, 'Missed heartbeats show the player as away');
+            check(host.count('reveal') === 0, 'The round still waits for players who are here');
+
+            const token = carol.last('joined')!.token;
+            engine.disconnect(carol);
+            check(host.count('reveal') === 1, 'Round reveals once everyone who is here has answered');
+            const missed = host.last('reveal')!.results.filter(r => r.missed).map(r => r.name).sort();
+            check(missed.join() === 'Bob,Carol', 'Away players who did not answer miss the round');
+
+            engine.setAway(bob, false);
+            check(!host.last('player-list')!.players.find(p => p.name === 'Bob')?.away, 'Player is back once heartbeats return');
+            const carolAgain = new FakeConnection(engine);
+            carolAgain.command({ type: 'resume', protocolVersion: PROTOCOL_VERSION, token });
+            check(!host.last('player-list')!.players.find(p => p.name === 'Carol')?.away, 'Resuming clears away');
+
+            alice.command({ type: 'next-round' });
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            check(host.count('reveal') === 1, 'Players who came back hold up the round again');
+        }
+
+        // Test 18: Continent and difficulty filters
+        console.log('\nTest 18: Continent and difficulty filters');
+        {
+            const byId = new Map(WORLD_CITIES_PACK.questions.map(q => [q.id, q]));
+            check(WORLD_CITIES_PACK.questions.every(q => q.continent && q.difficulty), 'Every city has a continent and a difficulty');
+            check(byId.get('world-cities-1')?.countryCode === 'GB', 'Cities carry their ISO2 country code');
+
+            const playFiltered = (seed: number, settings: object) => {
+                const clock = new FakeClock();
+                const engine = new GameEngine({ clock, random: seededRandom(seed), questionPacks: [WORLD_CITIES_PACK, COUNTRIES_PACK] });
+                const { host, players: [alice] } = setupRoom(engine, ['Alice']);
+                alice.command({ type: 'start-game', maxRounds: 8, ...settings });
+                const asked = [];
+                for (let round = 0; round < host.last('game-start')!.maxRounds; round++) {
+                    clock.advance(ROUND_START_DELAY_MS);
+                    asked.push(host.last('question')!.question);
+                    alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+                    alice.command({ type: 'next-round' });
+                }
+                return { host, asked };
+            };
+
+            const europe = playFiltered(18, { continent: 'europe' });
+            check(europe.host.last('game-start')?.continent === 'europe', 'Game start announces the continent');
+            check(europe.asked.every(q => byId.get(q.id)?.continent === 'europe'), 'Europe-only game asks only European questions');
+            check(europe.asked.every(q => !('continent' in q) && !('countryCode' in q) && !('difficulty' in q)), 'Prompts do not give away continent, country code or tier');
+
+            const hard = playFiltered(19, { continent: 'asia', difficulty: 'hard' });
+            check(hard.asked.every(q => byId.get(q.id)?.difficulty === 'hard' && byId.get(q.id)?.continent === 'asia'), 'Filters combine');
+
+            const countries = playFiltered(20, { pack: COUNTRIES_PACK.id, continent: 'africa', difficulty: 'easy' });
+            check(countries.asked.every(q => q.countryCode && COUNTRIES_PACK.questions.find(c => c.id === q.id)?.continent === 'africa'), 'Packs without tiers ignore the difficulty');
+
+            const engine = new GameEngine({ clock: new FakeClock(), random: seededRandom(21) });
+            const { players: [alice] } = setupRoom(engine, ['Alice']);
+            alice.command({ type: 'start-game', continent: 'atlantis' });
+            check(alice.last('error')?.code === 'invalid-message', 'Unknown continent is rejected');
+        }
+
+        // Test 19: Region-restricted games
+        console.log('\nTest 19: Region-restricted games');
+        {
+            const playRegion = (seed: number, packs: QuestionPack[], settings: object) => {
+                const clock = new FakeClock();
+                const engine = new GameEngine({ clock, random: seededRandom(seed), questionPacks: packs });
+                const { host, code, players: [alice] } = setupRoom(engine, ['Alice']);
+                alice.command({ type: 'start-game', maxRounds: 20, ...settings });
+                const asked = [];
+                for (let round = 0; round < host.last('game-start')!.maxRounds; round++) {
+                    clock.advance(ROUND_START_DELAY_MS);
+                    asked.push(host.last('question')!.question);
+                    alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+                    alice.command({ type: 'next-round' });
+                }
+                return { engine, host, code, asked };
+            };
+            const inBox = (pack: QuestionPack, id: string | undefined, region: 'oceania' | 'africa') => {
+                const { lat, lon } = pack.questions.find(q => q.id === id)!.correctAnswer;
+                return isInRegionBounds(lat, lon, region);
+            };
+
+            const oceania = playRegion(22, [WORLD_CITIES_PACK, COUNTRIES_PACK], { pack: COUNTRIES_PACK.id, continent: 'oceania' });
+            check(oceania.asked.length > 0 && oceania.asked.every(q => inBox(COUNTRIES_PACK, q.id, 'oceania')), 'Only answers inside the region box are drawn');
+            check(!oceania.asked.some(q => q.text === 'Tonga' || q.text === 'Samoa'), 'Outlying islands are left out');
+
+            const hardAfrica = playRegion(23, [WORLD_CITIES_PACK], { continent: 'africa', difficulty: 'hard' });
+            check(hardAfrica.host.last('game-start')?.continent === 'africa', 'A region without the chosen tier keeps its continent');
+            check(hardAfrica.asked.length > 0 && hardAfrica.asked.every(q => inBox(WORLD_CITIES_PACK, q.id, 'africa')), 'It plays the region at every difficulty instead');
+
+            const nordic = parseCsvPack('nordic-capitals', 'text,lat,lon\nOslo,59.9139,10.7522\nStockholm,59.3293,18.0686', () => {});
+            const nowhere = playRegion(24, [WORLD_CITIES_PACK, nordic], { pack: nordic.id, continent: 'asia' });
+            check(nowhere.asked.length === 2 && nowhere.host.last('game-start')?.continent === undefined, 'A pack with nothing in the region plays the whole world without a continent');
+
+            const europe = playRegion(25, [WORLD_CITIES_PACK], { continent: 'europe', maxRounds: 1 });
+            const late = new FakeConnection(europe.engine);
+            late.command({ type: 'join', protocolVersion: PROTOCOL_VERSION, name: 'Sam', code: europe.code, spectator: true });
+            check(late.last('state-snapshot')?.continent === 'europe', 'State snapshots carry the continent');
+        }
+
+        // Test 20: Answer times and the speed bonus
+        console.log('\nTest 20: Answer times and speed bonus');
+        {
+            const clock = new FakeClock();
+            const engine = new GameEngine({ clock, random: seededRandom(26) });
+            const { host, players: [alice, bob, carol] } = setupRoom(engine, ['Alice', 'Bob', 'Carol']);
+            engine.setRoundTrip(bob, 400);
+            engine.setRoundTrip(carol, 5000);
+
+            alice.command({ type: 'start-game', maxRounds: 2, timeLimit: 20, scoring: 'linear', speedBonus: true });
+            check(host.last('game-start')?.speedBonus === true, 'Game start announces the speed bonus');
+            clock.advance(ROUND_START_DELAY_MS);
+
+            clock.advance(2000);
+            alice.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            alice.command({ type: 'pause-round' });
+            clock.advance(5000);
+            alice.command({ type: 'resume-round' });
+            clock.advance(10000);
+            bob.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            carol.command({ type: 'submit-answer', lat: 0, lon: 0 });
+
+            const results = host.last('reveal')!.results;
+            const byName = (name: string) => results.find(r => r.name === name)!;
+            check(byName('Alice').answerTime === 2000, 'Answer time is measured from the question');
+            check(byName('Bob').answerTime === 11600, `Pauses and the connection's round trip are left out (${byName('Bob').answerTime}ms)`);
+            check(byName('Carol').answerTime === 11000, 'A slow connection makes up for at most a second');
+            check(results.every(r => r.speedBonus === calculateSpeedBonus(r.points - r.speedBonus!, r.answerTime!, 20000)), 'Bonus shrinks over the time limit');
+            check(byName('Alice').speedBonus! > byName('Bob').speedBonus!, 'Quicker answers earn a bigger bonus');
+            check(byName('Alice').totalScore === byName('Alice').points, 'Bonus counts towards the score');
+
+            const plain = new GameEngine({ clock, random: seededRandom(27) });
+            const { host: plainHost, players: [dave] } = setupRoom(plain, ['Dave']);
+            dave.command({ type: 'start-game', maxRounds: 1 });
+            clock.advance(ROUND_START_DELAY_MS + 3000);
+            dave.command({ type: 'submit-answer', lat: 0, lon: 0 });
+            const result = plainHost.last('reveal')!.results[0];
+            check(result.answerTime === 3000 && !('speedBonus' in result), 'Without the bonus, answer times are still shown');
+            check(formatAnswerTime(4200, 120) === '4.2s ⚡+120' && formatAnswerTime(undefined) === '', 'Answer times format for the results list');
+        }
+
+        console.log('\n=== All tests passed ===');
+        process.exit(0);
+
+    } catch (error) {
+        console.error('\n✗ Test failed:', (error as Error).message);
+        console.error((error as Error).stack);
+        process.exit(1);
+    }
+}
+
+runTests();
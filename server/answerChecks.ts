@@ -0,0 +1,53 @@
+/**
+ * Answer Checks
+ *
+ * Plausibility checks on a submitted pin and its recorded path. Malformed
+ * answers never get this far - the protocol validator refuses them - so
+ * nothing here rejects an answer. It only points out answers worth a
+ * second look, such as a path that teleports across the globe.
+ */
+
+import { calculateDistance } from './cities';
+import type { RecordedPosition } from '../shared/protocol';
+
+// The recorder samples at most every 16 ms, so its last sample can trail the placed pin
+const FINAL_POSITION_TOLERANCE_KM = 500;
+
+// Further than a finger can drag the pin between two samples
+const MAX_STEP_KM = 3000;
+
+// Recording starts on the phone after the question arrives, so allow for delivery and clock drift
+const TIMESTAMP_SLACK_MS = 2000;
+
+/**
+ * @param roundElapsedMs Time since the server asked the question
+ * @returns Why the answer looks implausible - empty if it looks fine
+ */
+export function checkAnswer(lat: number, lon: number, positions: RecordedPosition[], roundElapsedMs: number): string[] {
+    const reasons: string[] = [];
+    if (positions.length === 0) return reasons; // Recording is optional
+
+    const last = positions[positions.length - 1];
+    const offset = calculateDistance(lat, lon, last.lat, last.lon);
+    if (offset > FINAL_POSITION_TOLERANCE_KM) {
+        reasons.push(`pin is ${Math.round(offset)} km from the end of its recorded path`);
+    }
+
+    let biggestStep = 0;
+    for (let i = 1; i < positions.length; i++) {
+        const step = calculateDistance(positions[i - 1].lat, positions[i - 1].lon, positions[i].lat, positions[i].lon);
+        biggestStep = Math.max(biggestStep, step);
+    }
+    if (biggestStep > MAX_STEP_KM) {
+        reasons.push(`recorded path jumps ${Math.round(biggestStep)} km between two samples`);
+    }
+
+    if (positions.some((p, i) => p.timestamp < 0 || (i > 0 && p.timestamp < positions[i - 1].timestamp))) {
+        reasons.push('recorded timestamps go backwards');
+    }
+    if (last.timestamp > roundElapsedMs + TIMESTAMP_SLACK_MS) {
+        reasons.push(`recording lasts ${(last.timestamp / 1000).toFixed(1)}s but the question was asked ${(roundElapsedMs / 1000).toFixed(1)}s ago`);
+    }
+
+    return reasons;
+}
@@ -0,0 +1,128 @@
+/**
+ * Server Bots
+ *
+ * Computer players that the game engine answers for. A bot aims at the
+ * correct answer and misses by a distance drawn from its difficulty: misses
+ * shrink for famous places and for places in the bot's home region, and
+ * every so often a bot blunders badly. Each answer comes with a recorded pin
+ * path so bots show up in the pin replay like everyone else.
+ */
+
+import { generateBotMovementToTarget } from '../src/botMovementGenerator';
+import type { BotDifficulty } from '../shared/bots';
+import type { RecordedPosition } from '../shared/protocol';
+import { REGION_LABELS, getRegion, type Region } from '../shared/geo';
+import type { Question } from '../shared/types';
+
+const REGIONS = Object.keys(REGION_LABELS) as Region[];
+
+export interface BotProfile {
+    difficulty: BotDifficulty;
+    homeRegion: Region;     // Where the bot knows its way around
+}
+
+export interface BotAnswer {
+    lat: number;
+    lon: number;
+    positions: RecordedPosition[];
+}
+
+interface DifficultySettings {
+    medianErrorKm: number;          // Typical miss for an averagely famous place outside the home region
+    spread: number;                 // Log-normal sigma - how much the misses vary
+    blunderChance: number;          // Chance of a wild guess
+    thinkMs: [number, number];      // Range of time taken to answer
+}
+
+const DIFFICULTY_SETTINGS: Record<BotDifficulty, DifficultySettings> = {
+    easy: { medianErrorKm: 2500, spread: 0.8, blunderChance: 0.15, thinkMs: [6000, 14000] },
+    medium: { medianErrorKm: 800, spread: 0.7, blunderChance: 0.05, thinkMs: [4000, 10000] },
+    expert: { medianErrorKm: 150, spread: 0.6, blunderChance: 0.01, thinkMs: [2000, 6000] }
+};
+
+const DEFAULT_FAME = 0.5;
+const HOME_REGION_FACTOR = 0.4;     // Misses shrink to 40% close to home
+const BLUNDER_FACTOR = 4;
+const MAX_ERROR_KM = 20000;         // Roughly the far side of the globe
+
+const EARTH_RADIUS_KM = 6371;
+
+const BOT_NAMES = ['Ada', 'Boris', 'Chen', 'Dalia', 'Emil', 'Fatima', 'Gustav', 'Hana', 'Ivan', 'Jonas', 'Kofi', 'Lucia'];
+
+export function createBotProfile(difficulty: BotDifficulty, random: () => number): BotProfile {
+    return {
+        difficulty,
+        homeRegion: REGIONS[Math.floor(random() * REGIONS.length)]
+    };
+}
+
+/** A free "Bot <name>" for a new bot */
+export function pickBotName(taken: string[], random: () => number): string {
+    const free = BOT_NAMES.map(name => `Bot ${name}`).filter(name => !taken.includes(name));
+    if (free.length > 0) return free[Math.floor(random() * free.length)];
+
+    let n = 1;
+    while (taken.includes(`Bot ${n}`)) n++;
+    return `Bot ${n}`;
+}
+
+/** How long the bot "thinks" before answering (ms) */
+export function getBotThinkTime(profile: BotProfile, random: () => number): number {
+    const [min, max] = DIFFICULTY_SETTINGS[profile.difficulty].thinkMs;
+    return min + random() * (max - min);
+}
+
+/**
+ * How far off the bot will be for this question (km)
+ */
+export function getBotErrorKm(profile: BotProfile, question: Question, random: () => number): number {
+    const settings = DIFFICULTY_SETTINGS[profile.difficulty];
+    const fame = question.fame ?? DEFAULT_FAME;
+    const { lat, lon } = question.correctAnswer;
+
+    const fameFactor = 1.5 - fame; // 0.5 for the most famous places, 1.5 for the most obscure
+    const familiarity = getRegion(lat, lon) === profile.homeRegion ? HOME_REGION_FACTOR : 1;
+    const blunder = random() < settings.blunderChance ? BLUNDER_FACTOR : 1;
+    const noise = Math.exp(settings.spread * gaussian(random));
+
+    return Math.min(MAX_ERROR_KM, settings.medianErrorKm * fameFactor * familiarity * blunder * noise);
+}
+
+/**
+ * Pick the bot's pin for a question and the path its "cursor" took there
+ */
+export function getBotAnswer(profile: BotProfile, question: Question, random: () => number): BotAnswer {
+    const { lat, lon } = question.correctAnswer;
+    const pin = destinationPoint(lat, lon, getBotErrorKm(profile, question, random), random() * 2 * Math.PI);
+
+    const numPositions = 20 + Math.floor(random() * 15);
+    const duration = 1500 + random() * 1500;
+    const positions = generateBotMovementToTarget(pin.lat, pin.lon, numPositions, duration, random);
+
+    return { ...pin, positions };
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(random: () => number): number {
+    const u = 1 - random(); // (0, 1] - log(0) is -Infinity
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** The point `distanceKm` away from a start point along a bearing (radians from north) */
+function destinationPoint(lat: number, lon: number, distanceKm: number, bearing: number): { lat: number; lon: number } {
+    const toRad = Math.PI / 180;
+    const angular = distanceKm / EARTH_RADIUS_KM;
+    const lat1 = lat * toRad;
+    const lon1 = lon * toRad;
+
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+    const lon2 = lon1 + Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+    return {
+        lat: lat2 / toRad,
+        lon: ((lon2 / toRad + 540) % 360) - 180
+    };
+}
@@ -1,208 +1,228 @@
 /**
  * 200 Famous Cities of the World
- * Each city has name, country, and coordinates (lat, lon)
+ * Each city has name, country, coordinates (lat, lon) and, for actual cities,
+ * a rounded population. Run `npm run enrich-cities` after editing the list -
+ * the game reads the enriched copy in cities-enriched.json.
  */
 
-export const cities = [
+import type { QuestionDifficulty } from '../shared/difficulty';
+import type { Region } from '../shared/geo';
+
+export interface City {
+    name: string;
+    country: string;
+    lat: number;
+    lon: number;
+    population?: number;    // Left out for landmarks, islands and whole countries
+}
+
+/** A city as written to cities-enriched.json by scripts/enrich-cities.ts */
+export interface EnrichedCity extends City {
+    iso2: string | null;    // Country the city lies in, null if it couldn't be placed
+    continent: Region;
+    difficulty: QuestionDifficulty;
+}
+
+export const cities: City[] = [
     // Europe
-    { name: "London", country: "UK", lat: 51.5074, lon: -0.1278 },
-    { name: "Paris", country: "France", lat: 48.8566, lon: 2.3522 },
-    { name: "Rome", country: "Italy", lat: 41.9028, lon: 12.4964 },
-    { name: "Berlin", country: "Germany", lat: 52.5200, lon: 13.4050 },
-    { name: "Madrid", country: "Spain", lat: 40.4168, lon: -3.7038 },
-    { name: "Amsterdam", country: "Netherlands", lat: 52.3676, lon: 4.9041 },
-    { name: "Vienna", country: "Austria", lat: 48.2082, lon: 16.3738 },
-    { name: "Prague", country: "Czech Republic", lat: 50.0755, lon: 14.4378 },
-    { name: "Barcelona", country: "Spain", lat: 41.3851, lon: 2.1734 },
-    { name: "Munich", country: "Germany", lat: 48.1351, lon: 11.5820 },
-    { name: "Milan", country: "Italy", lat: 45.4642, lon: 9.1900 },
-    { name: "Stockholm", country: "Sweden", lat: 59.3293, lon: 18.0686 },
-    { name: "Copenhagen", country: "Denmark", lat: 55.6761, lon: 12.5683 },
-    { name: "Dublin", country: "Ireland", lat: 53.3498, lon: -6.2603 },
-    { name: "Brussels", country: "Belgium", lat: 50.8503, lon: 4.3517 },
-    { name: "Lisbon", country: "Portugal", lat: 38.7223, lon: -9.1393 },
-    { name: "Athens", country: "Greece", lat: 37.9838, lon: 23.7275 },
-    { name: "Budapest", country: "Hungary", lat: 47.4979, lon: 19.0402 },
-    { name: "Warsaw", country: "Poland", lat: 52.2297, lon: 21.0122 },
-    { name: "Oslo", country: "Norway", lat: 59.9139, lon: 10.7522 },
-    { name: "Helsinki", country: "Finland", lat: 60.1699, lon: 24.9384 },
-    { name: "Zurich", country: "Switzerland", lat: 47.3769, lon: 8.5417 },
-    { name: "Geneva", country: "Switzerland", lat: 46.2044, lon: 6.1432 },
-    { name: "Venice", country: "Italy", lat: 45.4408, lon: 12.3155 },
-    { name: "Florence", country: "Italy", lat: 43.7696, lon: 11.2558 },
-    { name: "Edinburgh", country: "UK", lat: 55.9533, lon: -3.1883 },
-    { name: "Reykjavik", country: "Iceland", lat: 64.1466, lon: -21.9426 },
-    { name: "Monaco", country: "Monaco", lat: 43.7384, lon: 7.4246 },
-    { name: "Krakow", country: "Poland", lat: 50.0647, lon: 19.9450 },
-    { name: "Istanbul", country: "Turkey", lat: 41.0082, lon: 28.9784 },
+    { name: "London", country: "UK", lat: 51.5074, lon: -0.1278, population: 8_982_000 },
+    { name: "Paris", country: "France", lat: 48.8566, lon: 2.3522, population: 2_161_000 },
+    { name: "Rome", country: "Italy", lat: 41.9028, lon: 12.4964, population: 2_873_000 },
+    { name: "Berlin", country: "Germany", lat: 52.5200, lon: 13.4050, population: 3_645_000 },
+    { name: "Madrid", country: "Spain", lat: 40.4168, lon: -3.7038, population: 3_223_000 },
+    { name: "Amsterdam", country: "Netherlands", lat: 52.3676, lon: 4.9041, population: 872_000 },
+    { name: "Vienna", country: "Austria", lat: 48.2082, lon: 16.3738, population: 1_897_000 },
+    { name: "Prague", country: "Czech Republic", lat: 50.0755, lon: 14.4378, population: 1_309_000 },
+    { name: "Barcelona", country: "Spain", lat: 41.3851, lon: 2.1734, population: 1_620_000 },
+    { name: "Munich", country: "Germany", lat: 48.1351, lon: 11.5820, population: 1_472_000 },
+    { name: "Milan", country: "Italy", lat: 45.4642, lon: 9.1900, population: 1_352_000 },
+    { name: "Stockholm", country: "Sweden", lat: 59.3293, lon: 18.0686, population: 975_000 },
+    { name: "Copenhagen", country: "Denmark", lat: 55.6761, lon: 12.5683, population: 602_000 },
+    { name: "Dublin", country: "Ireland", lat: 53.3498, lon: -6.2603, population: 554_000 },
+    { name: "Brussels", country: "Belgium", lat: 50.8503, lon: 4.3517, population: 1_209_000 },
+    { name: "Lisbon", country: "Portugal", lat: 38.7223, lon: -9.1393, population: 545_000 },
+    { name: "Athens", country: "Greece", lat: 37.9838, lon: 23.7275, population: 664_000 },
+    { name: "Budapest", country: "Hungary", lat: 47.4979, lon: 19.0402, population: 1_752_000 },
+    { name: "Warsaw", country: "Poland", lat: 52.2297, lon: 21.0122, population: 1_790_000 },
+    { name: "Oslo", country: "Norway", lat: 59.9139, lon: 10.7522, population: 697_000 },
+    { name: "Helsinki", country: "Finland", lat: 60.1699, lon: 24.9384, population: 656_000 },
+    { name: "Zurich", country: "Switzerland", lat: 47.3769, lon: 8.5417, population: 421_000 },
+    { name: "Geneva", country: "Switzerland", lat: 46.2044, lon: 6.1432, population: 203_000 },
+    { name: "Venice", country: "Italy", lat: 45.4408, lon: 12.3155, population: 261_000 },
+    { name: "Florence", country: "Italy", lat: 43.7696, lon: 11.2558, population: 382_000 },
+    { name: "Edinburgh", country: "UK", lat: 55.9533, lon: -3.1883, population: 525_000 },
+    { name: "Reykjavik", country: "Iceland", lat: 64.1466, lon: -21.9426, population: 131_000 },
+    { name: "Monaco", country: "Monaco", lat: 43.7384, lon: 7.4246, population: 39_000 },
+    { name: "Krakow", country: "Poland", lat: 50.0647, lon: 19.9450, population: 779_000 },
+    { name: "Istanbul", country: "Turkey", lat: 41.0082, lon: 28.9784, population: 15_460_000 },
 
     // Asia
-    { name: "Tokyo", country: "Japan", lat: 35.6762, lon: 139.6503 },
-    { name: "Beijing", country: "China", lat: 39.9042, lon: 116.4074 },
-    { name: "Shanghai", country: "China", lat: 31.2304, lon: 121.4737 },
-    { name: "Hong Kong", country: "China", lat: 22.3193, lon: 114.1694 },
-    { name: "Singapore", country: "Singapore", lat: 1.3521, lon: 103.8198 },
-    { name: "Seoul", country: "South Korea", lat: 37.5665, lon: 126.9780 },
-    { name: "Bangkok", country: "Thailand", lat: 13.7563, lon: 100.5018 },
-    { name: "Mumbai", country: "India", lat: 19.0760, lon: 72.8777 },
-    { name: "Delhi", country: "India", lat: 28.7041, lon: 77.1025 },
-    { name: "Dubai", country: "UAE", lat: 25.2048, lon: 55.2708 },
-    { name: "Kuala Lumpur", country: "Malaysia", lat: 3.1390, lon: 101.6869 },
-    { name: "Taipei", country: "Taiwan", lat: 25.0330, lon: 121.5654 },
-    { name: "Jakarta", country: "Indonesia", lat: -6.2088, lon: 106.8456 },
-    { name: "Manila", country: "Philippines", lat: 14.5995, lon: 120.9842 },
-    { name: "Hanoi", country: "Vietnam", lat: 21.0278, lon: 105.8342 },
-    { name: "Ho Chi Minh City", country: "Vietnam", lat: 10.8231, lon: 106.6297 },
-    { name: "Osaka", country: "Japan", lat: 34.6937, lon: 135.5023 },
-    { name: "Kyoto", country: "Japan", lat: 35.0116, lon: 135.7681 },
-    { name: "Bangalore", country: "India", lat: 12.9716, lon: 77.5946 },
-    { name: "Chennai", country: "India", lat: 13.0827, lon: 80.2707 },
-    { name: "Kolkata", country: "India", lat: 22.5726, lon: 88.3639 },
-    { name: "Shenzhen", country: "China", lat: 22.5431, lon: 114.0579 },
-    { name: "Guangzhou", country: "China", lat: 23.1291, lon: 113.2644 },
-    { name: "Chengdu", country: "China", lat: 30.5728, lon: 104.0668 },
-    { name: "Busan", country: "South Korea", lat: 35.1796, lon: 129.0756 },
-    { name: "Phuket", country: "Thailand", lat: 7.8804, lon: 98.3923 },
+    { name: "Tokyo", country: "Japan", lat: 35.6762, lon: 139.6503, population: 13_960_000 },
+    { name: "Beijing", country: "China", lat: 39.9042, lon: 116.4074, population: 21_540_000 },
+    { name: "Shanghai", country: "China", lat: 31.2304, lon: 121.4737, population: 24_870_000 },
+    { name: "Hong Kong", country: "China", lat: 22.3193, lon: 114.1694, population: 7_482_000 },
+    { name: "Singapore", country: "Singapore", lat: 1.3521, lon: 103.8198, population: 5_686_000 },
+    { name: "Seoul", country: "South Korea", lat: 37.5665, lon: 126.9780, population: 9_776_000 },
+    { name: "Bangkok", country: "Thailand", lat: 13.7563, lon: 100.5018, population: 10_539_000 },
+    { name: "Mumbai", country: "India", lat: 19.0760, lon: 72.8777, population: 12_442_000 },
+    { name: "Delhi", country: "India", lat: 28.7041, lon: 77.1025, population: 16_788_000 },
+    { name: "Dubai", country: "UAE", lat: 25.2048, lon: 55.2708, population: 3_331_000 },
+    { name: "Kuala Lumpur", country: "Malaysia", lat: 3.1390, lon: 101.6869, population: 1_808_000 },
+    { name: "Taipei", country: "Taiwan", lat: 25.0330, lon: 121.5654, population: 2_646_000 },
+    { name: "Jakarta", country: "Indonesia", lat: -6.2088, lon: 106.8456, population: 10_562_000 },
+    { name: "Manila", country: "Philippines", lat: 14.5995, lon: 120.9842, population: 1_780_000 },
+    { name: "Hanoi", country: "Vietnam", lat: 21.0278, lon: 105.8342, population: 8_054_000 },
+    { name: "Ho Chi Minh City", country: "Vietnam", lat: 10.8231, lon: 106.6297, population: 8_993_000 },
+    { name: "Osaka", country: "Japan", lat: 34.6937, lon: 135.5023, population: 2_691_000 },
+    { name: "Kyoto", country: "Japan", lat: 35.0116, lon: 135.7681, population: 1_475_000 },
+    { name: "Bangalore", country: "India", lat: 12.9716, lon: 77.5946, population: 8_443_000 },
+    { name: "Chennai", country: "India", lat: 13.0827, lon: 80.2707, population: 7_088_000 },
+    { name: "Kolkata", country: "India", lat: 22.5726, lon: 88.3639, population: 4_497_000 },
+    { name: "Shenzhen", country: "China", lat: 22.5431, lon: 114.0579, population: 17_560_000 },
+    { name: "Guangzhou", country: "China", lat: 23.1291, lon: 113.2644, population: 18_676_000 },
+    { name: "Chengdu", country: "China", lat: 30.5728, lon: 104.0668, population: 20_937_000 },
+    { name: "Busan", country: "South Korea", lat: 35.1796, lon: 129.0756, population: 3_429_000 },
+    { name: "Phuket", country: "Thailand", lat: 7.8804, lon: 98.3923, population: 79_000 },
     { name: "Bali", country: "Indonesia", lat: -8.3405, lon: 115.0920 },
-    { name: "Kathmandu", country: "Nepal", lat: 27.7172, lon: 85.3240 },
-    { name: "Colombo", country: "Sri Lanka", lat: 6.9271, lon: 79.8612 },
+    { name: "Kathmandu", country: "Nepal", lat: 27.7172, lon: 85.3240, population: 1_442_000 },
+    { name: "Colombo", country: "Sri Lanka", lat: 6.9271, lon: 79.8612, population: 752_000 },
     { name: "Maldives", country: "Maldives", lat: 3.2028, lon: 73.2207 },
 
     // Middle East
-    { name: "Jerusalem", country: "Israel", lat: 31.7683, lon: 35.2137 },
-    { name: "Tel Aviv", country: "Israel", lat: 32.0853, lon: 34.7818 },
-    { name: "Doha", country: "Qatar", lat: 25.2854, lon: 51.5310 },
-    { name: "Abu Dhabi", country: "UAE", lat: 24.4539, lon: 54.3773 },
-    { name: "Riyadh", country: "Saudi Arabia", lat: 24.7136, lon: 46.6753 },
-    { name: "Muscat", country: "Oman", lat: 23.5880, lon: 58.3829 },
-    { name: "Amman", country: "Jordan", lat: 31.9454, lon: 35.9284 },
-    { name: "Beirut", country: "Lebanon", lat: 33.8938, lon: 35.5018 },
-    { name: "Tehran", country: "Iran", lat: 35.6892, lon: 51.3890 },
+    { name: "Jerusalem", country: "Israel", lat: 31.7683, lon: 35.2137, population: 936_000 },
+    { name: "Tel Aviv", country: "Israel", lat: 32.0853, lon: 34.7818, population: 460_000 },
+    { name: "Doha", country: "Qatar", lat: 25.2854, lon: 51.5310, population: 1_186_000 },
+    { name: "Abu Dhabi", country: "UAE", lat: 24.4539, lon: 54.3773, population: 1_483_000 },
+    { name: "Riyadh", country: "Saudi Arabia", lat: 24.7136, lon: 46.6753, population: 7_676_000 },
+    { name: "Muscat", country: "Oman", lat: 23.5880, lon: 58.3829, population: 1_421_000 },
+    { name: "Amman", country: "Jordan", lat: 31.9454, lon: 35.9284, population: 4_061_000 },
+    { name: "Beirut", country: "Lebanon", lat: 33.8938, lon: 35.5018, population: 361_000 },
+    { name: "Tehran", country: "Iran", lat: 35.6892, lon: 51.3890, population: 8_694_000 },
 
     // Africa
-    { name: "Cairo", country: "Egypt", lat: 30.0444, lon: 31.2357 },
-    { name: "Cape Town", country: "South Africa", lat: -33.9249, lon: 18.4241 },
-    { name: "Johannesburg", country: "South Africa", lat: -26.2041, lon: 28.0473 },
-    { name: "Marrakech", country: "Morocco", lat: 31.6295, lon: -7.9811 },
-    { name: "Casablanca", country: "Morocco", lat: 33.5731, lon: -7.5898 },
-    { name: "Nairobi", country: "Kenya", lat: -1.2921, lon: 36.8219 },
-    { name: "Lagos", country: "Nigeria", lat: 6.5244, lon: 3.3792 },
-    { name: "Accra", country: "Ghana", lat: 5.6037, lon: -0.1870 },
-    { name: "Addis Ababa", country: "Ethiopia", lat: 8.9806, lon: 38.7578 },
-    { name: "Tunis", country: "Tunisia", lat: 36.8065, lon: 10.1815 },
-    { name: "Algiers", country: "Algeria", lat: 36.7538, lon: 3.0588 },
-    { name: "Dakar", country: "Senegal", lat: 14.7167, lon: -17.4677 },
+    { name: "Cairo", country: "Egypt", lat: 30.0444, lon: 31.2357, population: 9_540_000 },
+    { name: "Cape Town", country: "South Africa", lat: -33.9249, lon: 18.4241, population: 4_618_000 },
+    { name: "Johannesburg", country: "South Africa", lat: -26.2041, lon: 28.0473, population: 5_635_000 },
+    { name: "Marrakech", country: "Morocco", lat: 31.6295, lon: -7.9811, population: 929_000 },
+    { name: "Casablanca", country: "Morocco", lat: 33.5731, lon: -7.5898, population: 3_360_000 },
+    { name: "Nairobi", country: "Kenya", lat: -1.2921, lon: 36.8219, population: 4_397_000 },
+    { name: "Lagos", country: "Nigeria", lat: 6.5244, lon: 3.3792, population: 15_388_000 },
+    { name: "Accra", country: "Ghana", lat: 5.6037, lon: -0.1870, population: 2_514_000 },
+    { name: "Addis Ababa", country: "Ethiopia", lat: 8.9806, lon: 38.7578, population: 3_384_000 },
+    { name: "Tunis", country: "Tunisia", lat: 36.8065, lon: 10.1815, population: 638_000 },
+    { name: "Algiers", country: "Algeria", lat: 36.7538, lon: 3.0588, population: 2_988_000 },
+    { name: "Dakar", country: "Senegal", lat: 14.7167, lon: -17.4677, population: 1_146_000 },
     { name: "Zanzibar", country: "Tanzania", lat: -6.1659, lon: 39.2026 },
     { name: "Victoria Falls", country: "Zimbabwe", lat: -17.9243, lon: 25.8572 },
-    { name: "Luxor", country: "Egypt", lat: 25.6872, lon: 32.6396 },
+    { name: "Luxor", country: "Egypt", lat: 25.6872, lon: 32.6396, population: 506_000 },
 
     // North America
-    { name: "New York", country: "USA", lat: 40.7128, lon: -74.0060 },
-    { name: "Los Angeles", country: "USA", lat: 34.0522, lon: -118.2437 },
-    { name: "Chicago", country: "USA", lat: 41.8781, lon: -87.6298 },
-    { name: "San Francisco", country: "USA", lat: 37.7749, lon: -122.4194 },
-    { name: "Las Vegas", country: "USA", lat: 36.1699, lon: -115.1398 },
-    { name: "Miami", country: "USA", lat: 25.7617, lon: -80.1918 },
-    { name: "Washington D.C.", country: "USA", lat: 38.9072, lon: -77.0369 },
-    { name: "Boston", country: "USA", lat: 42.3601, lon: -71.0589 },
-    { name: "Seattle", country: "USA", lat: 47.6062, lon: -122.3321 },
-    { name: "Denver", country: "USA", lat: 39.7392, lon: -104.9903 },
-    { name: "Nashville", country: "USA", lat: 36.1627, lon: -86.7816 },
-    { name: "New Orleans", country: "USA", lat: 29.9511, lon: -90.0715 },
-    { name: "Austin", country: "USA", lat: 30.2672, lon: -97.7431 },
-    { name: "San Diego", country: "USA", lat: 32.7157, lon: -117.1611 },
-    { name: "Philadelphia", country: "USA", lat: 39.9526, lon: -75.1652 },
-    { name: "Phoenix", country: "USA", lat: 33.4484, lon: -112.0740 },
-    { name: "Dallas", country: "USA", lat: 32.7767, lon: -96.7970 },
-    { name: "Houston", country: "USA", lat: 29.7604, lon: -95.3698 },
-    { name: "Atlanta", country: "USA", lat: 33.7490, lon: -84.3880 },
-    { name: "Orlando", country: "USA", lat: 28.5383, lon: -81.3792 },
-    { name: "Honolulu", country: "USA", lat: 21.3069, lon: -157.8583 },
-    { name: "Toronto", country: "Canada", lat: 43.6532, lon: -79.3832 },
-    { name: "Vancouver", country: "Canada", lat: 49.2827, lon: -123.1207 },
-    { name: "Montreal", country: "Canada", lat: 45.5017, lon: -73.5673 },
-    { name: "Mexico City", country: "Mexico", lat: 19.4326, lon: -99.1332 },
-    { name: "Cancun", country: "Mexico", lat: 21.1619, lon: -86.8515 },
-    { name: "Havana", country: "Cuba", lat: 23.1136, lon: -82.3666 },
-    { name: "Nassau", country: "Bahamas", lat: 25.0480, lon: -77.3554 },
-    { name: "San Juan", country: "Puerto Rico", lat: 18.4655, lon: -66.1057 },
+    { name: "New York", country: "USA", lat: 40.7128, lon: -74.0060, population: 8_336_000 },
+    { name: "Los Angeles", country: "USA", lat: 34.0522, lon: -118.2437, population: 3_898_000 },
+    { name: "Chicago", country: "USA", lat: 41.8781, lon: -87.6298, population: 2_746_000 },
+    { name: "San Francisco", country: "USA", lat: 37.7749, lon: -122.4194, population: 873_000 },
+    { name: "Las Vegas", country: "USA", lat: 36.1699, lon: -115.1398, population: 641_000 },
+    { name: "Miami", country: "USA", lat: 25.7617, lon: -80.1918, population: 442_000 },
+    { name: "Washington D.C.", country: "USA", lat: 38.9072, lon: -77.0369, population: 689_000 },
+    { name: "Boston", country: "USA", lat: 42.3601, lon: -71.0589, population: 675_000 },
+    { name: "Seattle", country: "USA", lat: 47.6062, lon: -122.3321, population: 737_000 },
+    { name: "Denver", country: "USA", lat: 39.7392, lon: -104.9903, population: 715_000 },
+    { name: "Nashville", country: "USA", lat: 36.1627, lon: -86.7816, population: 689_000 },
+    { name: "New Orleans", country: "USA", lat: 29.9511, lon: -90.0715, population: 383_000 },
+    { name: "Austin", country: "USA", lat: 30.2672, lon: -97.7431, population: 961_000 },
+    { name: "San Diego", country: "USA", lat: 32.7157, lon: -117.1611, population: 1_386_000 },
+    { name: "Philadelphia", country: "USA", lat: 39.9526, lon: -75.1652, population: 1_603_000 },
+    { name: "Phoenix", country: "USA", lat: 33.4484, lon: -112.0740, population: 1_608_000 },
+    { name: "Dallas", country: "USA", lat: 32.7767, lon: -96.7970, population: 1_304_000 },
+    { name: "Houston", country: "USA", lat: 29.7604, lon: -95.3698, population: 2_304_000 },
+    { name: "Atlanta", country: "USA", lat: 33.7490, lon: -84.3880, population: 498_000 },
+    { name: "Orlando", country: "USA", lat: 28.5383, lon: -81.3792, population: 307_000 },
+    { name: "Honolulu", country: "USA", lat: 21.3069, lon: -157.8583, population: 350_000 },
+    { name: "Toronto", country: "Canada", lat: 43.6532, lon: -79.3832, population: 2_794_000 },
+    { name: "Vancouver", country: "Canada", lat: 49.2827, lon: -123.1207, population: 662_000 },
+    { name: "Montreal", country: "Canada", lat: 45.5017, lon: -73.5673, population: 1_762_000 },
+    { name: "Mexico City", country: "Mexico", lat: 19.4326, lon: -99.1332, population: 9_209_000 },
+    { name: "Cancun", country: "Mexico", lat: 21.1619, lon: -86.8515, population: 888_000 },
+    { name: "Havana", country: "Cuba", lat: 23.1136, lon: -82.3666, population: 2_130_000 },
+    { name: "Nassau", country: "Bahamas", lat: 25.0480, lon: -77.3554, population: 275_000 },
+    { name: "San Juan", country: "Puerto Rico", lat: 18.4655, lon: -66.1057, population: 342_000 },
     { name: "Jamaica", country: "Jamaica", lat: 18.1096, lon: -77.2975 },
 
     // South America
-    { name: "Rio de Janeiro", country: "Brazil", lat: -22.9068, lon: -43.1729 },
-    { name: "Sao Paulo", country: "Brazil", lat: -23.5505, lon: -46.6333 },
-    { name: "Buenos Aires", country: "Argentina", lat: -34.6037, lon: -58.3816 },
-    { name: "Lima", country: "Peru", lat: -12.0464, lon: -77.0428 },
-    { name: "Bogota", country: "Colombia", lat: 4.7110, lon: -74.0721 },
-    { name: "Santiago", country: "Chile", lat: -33.4489, lon: -70.6693 },
-    { name: "Cusco", country: "Peru", lat: -13.5319, lon: -71.9675 },
+    { name: "Rio de Janeiro", country: "Brazil", lat: -22.9068, lon: -43.1729, population: 6_748_000 },
+    { name: "Sao Paulo", country: "Brazil", lat: -23.5505, lon: -46.6333, population: 12_325_000 },
+    { name: "Buenos Aires", country: "Argentina", lat: -34.6037, lon: -58.3816, population: 3_075_000 },
+    { name: "Lima", country: "Peru", lat: -12.0464, lon: -77.0428, population: 9_752_000 },
+    { name: "Bogota", country: "Colombia", lat: 4.7110, lon: -74.0721, population: 7_181_000 },
+    { name: "Santiago", country: "Chile", lat: -33.4489, lon: -70.6693, population: 6_310_000 },
+    { name: "Cusco", country: "Peru", lat: -13.5319, lon: -71.9675, population: 428_000 },
     { name: "Machu Picchu", country: "Peru", lat: -13.1631, lon: -72.5450 },
-    { name: "Cartagena", country: "Colombia", lat: 10.3910, lon: -75.4794 },
-    { name: "Medellin", country: "Colombia", lat: 6.2476, lon: -75.5658 },
-    { name: "Quito", country: "Ecuador", lat: -0.1807, lon: -78.4678 },
-    { name: "Montevideo", country: "Uruguay", lat: -34.9011, lon: -56.1645 },
-    { name: "La Paz", country: "Bolivia", lat: -16.4897, lon: -68.1193 },
+    { name: "Cartagena", country: "Colombia", lat: 10.3910, lon: -75.4794, population: 914_000 },
+    { name: "Medellin", country: "Colombia", lat: 6.2476, lon: -75.5658, population: 2_569_000 },
+    { name: "Quito", country: "Ecuador", lat: -0.1807, lon: -78.4678, population: 2_011_000 },
+    { name: "Montevideo", country: "Uruguay", lat: -34.9011, lon: -56.1645, population: 1_319_000 },
+    { name: "La Paz", country: "Bolivia", lat: -16.4897, lon: -68.1193, population: 757_000 },
     { name: "Galapagos Islands", country: "Ecuador", lat: -0.9538, lon: -90.9656 },
 
     // Oceania
-    { name: "Sydney", country: "Australia", lat: -33.8688, lon: 151.2093 },
-    { name: "Melbourne", country: "Australia", lat: -37.8136, lon: 144.9631 },
-    { name: "Brisbane", country: "Australia", lat: -27.4698, lon: 153.0251 },
-    { name: "Perth", country: "Australia", lat: -31.9505, lon: 115.8605 },
-    { name: "Auckland", country: "New Zealand", lat: -36.8509, lon: 174.7645 },
-    { name: "Wellington", country: "New Zealand", lat: -41.2865, lon: 174.7762 },
-    { name: "Queenstown", country: "New Zealand", lat: -45.0312, lon: 168.6626 },
+    { name: "Sydney", country: "Australia", lat: -33.8688, lon: 151.2093, population: 5_312_000 },
+    { name: "Melbourne", country: "Australia", lat: -37.8136, lon: 144.9631, population: 5_078_000 },
+    { name: "Brisbane", country: "Australia", lat: -27.4698, lon: 153.0251, population: 2_560_000 },
+    { name: "Perth", country: "Australia", lat: -31.9505, lon: 115.8605, population: 2_085_000 },
+    { name: "Auckland", country: "New Zealand", lat: -36.8509, lon: 174.7645, population: 1_657_000 },
+    { name: "Wellington", country: "New Zealand", lat: -41.2865, lon: 174.7762, population: 215_000 },
+    { name: "Queenstown", country: "New Zealand", lat: -45.0312, lon: 168.6626, population: 16_000 },
     { name: "Fiji", country: "Fiji", lat: -17.7134, lon: 178.0650 },
     { name: "Tahiti", country: "French Polynesia", lat: -17.6509, lon: -149.4260 },
-    { name: "Gold Coast", country: "Australia", lat: -28.0167, lon: 153.4000 },
+    { name: "Gold Coast", country: "Australia", lat: -28.0167, lon: 153.4000, population: 640_000 },
 
     // Russia & Central Asia
-    { name: "Moscow", country: "Russia", lat: 55.7558, lon: 37.6173 },
-    { name: "St. Petersburg", country: "Russia", lat: 59.9311, lon: 30.3609 },
-    { name: "Almaty", country: "Kazakhstan", lat: 43.2220, lon: 76.8512 },
-    { name: "Tashkent", country: "Uzbekistan", lat: 41.2995, lon: 69.2401 },
-    { name: "Samarkand", country: "Uzbekistan", lat: 39.6270, lon: 66.9750 },
-    { name: "Tbilisi", country: "Georgia", lat: 41.7151, lon: 44.8271 },
-    { name: "Baku", country: "Azerbaijan", lat: 40.4093, lon: 49.8671 },
-    { name: "Yerevan", country: "Armenia", lat: 40.1792, lon: 44.4991 },
+    { name: "Moscow", country: "Russia", lat: 55.7558, lon: 37.6173, population: 12_655_000 },
+    { name: "St. Petersburg", country: "Russia", lat: 59.9311, lon: 30.3609, population: 5_384_000 },
+    { name: "Almaty", country: "Kazakhstan", lat: 43.2220, lon: 76.8512, population: 2_000_000 },
+    { name: "Tashkent", country: "Uzbekistan", lat: 41.2995, lon: 69.2401, population: 2_571_000 },
+    { name: "Samarkand", country: "Uzbekistan", lat: 39.6270, lon: 66.9750, population: 551_000 },
+    { name: "Tbilisi", country: "Georgia", lat: 41.7151, lon: 44.8271, population: 1_202_000 },
+    { name: "Baku", country: "Azerbaijan", lat: 40.4093, lon: 49.8671, population: 2_293_000 },
+    { name: "Yerevan", country: "Armenia", lat: 40.1792, lon: 44.4991, population: 1_093_000 },
 
     // More European cities
-    { name: "Nice", country: "France", lat: 43.7102, lon: 7.2620 },
-    { name: "Cannes", country: "France", lat: 43.5528, lon: 7.0174 },
-    { name: "Lyon", country: "France", lat: 45.7640, lon: 4.8357 },
-    { name: "Marseille", country: "France", lat: 43.2965, lon: 5.3698 },
-    { name: "Bordeaux", country: "France", lat: 44.8378, lon: -0.5792 },
-    { name: "Frankfurt", country: "Germany", lat: 50.1109, lon: 8.6821 },
-    { name: "Hamburg", country: "Germany", lat: 53.5511, lon: 9.9937 },
-    { name: "Cologne", country: "Germany", lat: 50.9375, lon: 6.9603 },
-    { name: "Naples", country: "Italy", lat: 40.8518, lon: 14.2681 },
-    { name: "Seville", country: "Spain", lat: 37.3891, lon: -5.9845 },
-    { name: "Valencia", country: "Spain", lat: 39.4699, lon: -0.3763 },
-    { name: "Porto", country: "Portugal", lat: 41.1579, lon: -8.6291 },
-    { name: "Bruges", country: "Belgium", lat: 51.2093, lon: 3.2247 },
-    { name: "Salzburg", country: "Austria", lat: 47.8095, lon: 13.0550 },
-    { name: "Innsbruck", country: "Austria", lat: 47.2692, lon: 11.4041 },
-    { name: "Dubrovnik", country: "Croatia", lat: 42.6507, lon: 18.0944 },
-    { name: "Split", country: "Croatia", lat: 43.5081, lon: 16.4402 },
-    { name: "Ljubljana", country: "Slovenia", lat: 46.0569, lon: 14.5058 },
-    { name: "Bratislava", country: "Slovakia", lat: 48.1486, lon: 17.1077 },
-    { name: "Bucharest", country: "Romania", lat: 44.4268, lon: 26.1025 },
-    { name: "Sofia", country: "Bulgaria", lat: 42.6977, lon: 23.3219 },
-    { name: "Belgrade", country: "Serbia", lat: 44.7866, lon: 20.4489 },
+    { name: "Nice", country: "France", lat: 43.7102, lon: 7.2620, population: 342_000 },
+    { name: "Cannes", country: "France", lat: 43.5528, lon: 7.0174, population: 74_000 },
+    { name: "Lyon", country: "France", lat: 45.7640, lon: 4.8357, population: 522_000 },
+    { name: "Marseille", country: "France", lat: 43.2965, lon: 5.3698, population: 870_000 },
+    { name: "Bordeaux", country: "France", lat: 44.8378, lon: -0.5792, population: 260_000 },
+    { name: "Frankfurt", country: "Germany", lat: 50.1109, lon: 8.6821, population: 753_000 },
+    { name: "Hamburg", country: "Germany", lat: 53.5511, lon: 9.9937, population: 1_841_000 },
+    { name: "Cologne", country: "Germany", lat: 50.9375, lon: 6.9603, population: 1_084_000 },
+    { name: "Naples", country: "Italy", lat: 40.8518, lon: 14.2681, population: 909_000 },
+    { name: "Seville", country: "Spain", lat: 37.3891, lon: -5.9845, population: 684_000 },
+    { name: "Valencia", country: "Spain", lat: 39.4699, lon: -0.3763, population: 792_000 },
+    { name: "Porto", country: "Portugal", lat: 41.1579, lon: -8.6291, population: 232_000 },
+    { name: "Bruges", country: "Belgium", lat: 51.2093, lon: 3.2247, population: 118_000 },
+    { name: "Salzburg", country: "Austria", lat: 47.8095, lon: 13.0550, population: 155_000 },
+    { name: "Innsbruck", country: "Austria", lat: 47.2692, lon: 11.4041, population: 132_000 },
+    { name: "Dubrovnik", country: "Croatia", lat: 42.6507, lon: 18.0944, population: 42_000 },
+    { name: "Split", country: "Croatia", lat: 43.5081, lon: 16.4402, population: 161_000 },
+    { name: "Ljubljana", country: "Slovenia", lat: 46.0569, lon: 14.5058, population: 295_000 },
+    { name: "Bratislava", country: "Slovakia", lat: 48.1486, lon: 17.1077, population: 475_000 },
+    { name: "Bucharest", country: "Romania", lat: 44.4268, lon: 26.1025, population: 1_716_000 },
+    { name: "Sofia", country: "Bulgaria", lat: 42.6977, lon: 23.3219, population: 1_236_000 },
+    { name: "Belgrade", country: "Serbia", lat: 44.7866, lon: 20.4489, population: 1_166_000 },
     { name: "Santorini", country: "Greece", lat: 36.3932, lon: 25.4615 },
     { name: "Mykonos", country: "Greece", lat: 37.4467, lon: 25.3289 },
 
     // More Asian cities
-    { name: "Macau", country: "China", lat: 22.1987, lon: 113.5439 },
-    { name: "Xi'an", country: "China", lat: 34.3416, lon: 108.9398 },
-    { name: "Hangzhou", country: "China", lat: 30.2741, lon: 120.1551 },
-    { name: "Nanjing", country: "China", lat: 32.0603, lon: 118.7969 },
-    { name: "Siem Reap", country: "Cambodia", lat: 13.3671, lon: 103.8448 },
-    { name: "Luang Prabang", country: "Laos", lat: 19.8830, lon: 102.1347 },
-    { name: "Yangon", country: "Myanmar", lat: 16.8661, lon: 96.1951 },
-    { name: "Jaipur", country: "India", lat: 26.9124, lon: 75.7873 },
-    { name: "Agra", country: "India", lat: 27.1767, lon: 78.0081 },
-    { name: "Varanasi", country: "India", lat: 25.3176, lon: 82.9739 },
+    { name: "Macau", country: "China", lat: 22.1987, lon: 113.5439, population: 683_000 },
+    { name: "Xi'an", country: "China", lat: 34.3416, lon: 108.9398, population: 12_953_000 },
+    { name: "Hangzhou", country: "China", lat: 30.2741, lon: 120.1551, population: 11_936_000 },
+    { name: "Nanjing", country: "China", lat: 32.0603, lon: 118.7969, population: 9_314_000 },
+    { name: "Siem Reap", country: "Cambodia", lat: 13.3671, lon: 103.8448, population: 245_000 },
+    { name: "Luang Prabang", country: "Laos", lat: 19.8830, lon: 102.1347, population: 56_000 },
+    { name: "Yangon", country: "Myanmar", lat: 16.8661, lon: 96.1951, population: 5_160_000 },
+    { name: "Jaipur", country: "India", lat: 26.9124, lon: 75.7873, population: 3_046_000 },
+    { name: "Agra", country: "India", lat: 27.1767, lon: 78.0081, population: 1_585_000 },
+    { name: "Varanasi", country: "India", lat: 25.3176, lon: 82.9739, population: 1_198_000 },
     { name: "Goa", country: "India", lat: 15.2993, lon: 74.1240 },
 
     // Famous landmarks/places
@@ -218,13 +238,8 @@ export const cities = [
     { name: "Christ the Redeemer", country: "Brazil", lat: -22.9519, lon: -43.2105 },
 ];
 
-// Get a random city
-export function getRandomCity() {
-    return cities[Math.floor(Math.random() * cities.length)];
-}
-
 // Calculate distance between two points in km (Haversine formula)
-export function calculateDistance(lat1, lon1, lat2, lon2) {
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
     const R = 6371; // Earth's radius in km
     const dLat = (lat2 - lat1) * Math.PI / 180;
     const dLon = (lon2 - lon1) * Math.PI / 180;
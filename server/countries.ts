@@ -0,0 +1,183 @@
+/**
+ * Country lookup for the game server
+ *
+ * Loads the same countries-enriched.json the globe renders and indexes it
+ * with CountryPicker, so the server can tell which country a pin landed in
+ * and how far a pin outside a country is from its border.
+ */
+
+import { readFileSync } from 'fs';
+import { CountryPicker, calculateBoundingBox, type LatLon } from '../src/countryPicker';
+import { calculateDistance } from './cities';
+import { getRegion, getRegionOfContinent, type Region } from '../shared/geo';
+
+const COUNTRIES_FILE = new URL('../public/countries-enriched.json', import.meta.url);
+
+// Fields of countries-enriched.json the server uses
+interface CountryRecord {
+    iso2: string;
+    name: string;
+    name_en: string;
+    paths: string;                     // JSON-encoded [lat, lon][][]
+    lakes?: Record<string, number[]>;
+    is_sovereign?: boolean;
+    continent?: string;
+}
+
+export interface CountryInfo {
+    iso2: string;
+    name: string;
+    center: LatLon;     // Middle of the country's largest polygon, used to aim the camera
+    region: Region;
+}
+
+// Short names used in cities.ts that don't match the dataset's names
+const COUNTRY_NAME_ALIASES: Record<string, string> = {
+    'UK': 'GB',
+    'UAE': 'AE',
+    'Serbia': 'RS'
+};
+
+const countries: CountryRecord[] = JSON.parse(readFileSync(COUNTRIES_FILE, 'utf-8'));
+
+// Land polygons per country, as indexed by the picker
+const polygonsByCountry = new Map<string, LatLon[][]>();
+
+function loadCountryPicker(): CountryPicker {
+    const picker = new CountryPicker(10); // 10° grid cells, same as the globe
+
+    countries.forEach((country, countryIndex) => {
+        if (!country.paths || country.paths === '[]') return;
+
+        const paths: [number, number][][] = JSON.parse(country.paths);
+
+        // Lakes are holes in their parent polygon, not land
+        const lakePolygonIndices = new Set(Object.values(country.lakes || {}).flat());
+
+        paths.forEach((polygon, polyIdx) => {
+            if (lakePolygonIndices.has(polyIdx) || polygon.length < 3) return;
+
+            // Skip polygons that cross the antimeridian (the globe skips them too)
+            const crossesAntimeridian = polygon.some((point, i) =>
+                i > 0 && Math.abs(point[1] - polygon[i - 1][1]) > 180
+            );
+            if (crossesAntimeridian) return;
+
+            const points = polygon.map(([lat, lon]) => ({ lat, lon }));
+            if (!polygonsByCountry.has(country.iso2)) polygonsByCountry.set(country.iso2, []);
+            polygonsByCountry.get(country.iso2)!.push(points);
+            picker.addPolygon({
+                iso2: country.iso2,
+                name: country.name_en,
+                countryIndex,
+                polygonIndex: polyIdx,
+                points,
+                bbox: calculateBoundingBox(points)
+            });
+        });
+    });
+
+    return picker;
+}
+
+const picker = loadCountryPicker();
+
+/**
+ * Get the ISO2 code of the country at a location
+ * @returns ISO2 code, or null over the ocean
+ */
+export function getCountryCodeAt(lat: number, lon: number): string | null {
+    return picker.getCountryAt({ lat, lon })?.iso2 ?? null;
+}
+
+/**
+ * Get the ISO2 code for a country name as written in cities.ts
+ * @returns ISO2 code, or null if the name is unknown
+ */
+export function getCountryCodeByName(name: string): string | null {
+    if (COUNTRY_NAME_ALIASES[name]) return COUNTRY_NAME_ALIASES[name];
+
+    const lower = name.toLowerCase();
+    const country = countries.find(c =>
+        c.name_en?.toLowerCase() === lower || c.name?.toLowerCase() === lower
+    );
+    return country ? country.iso2 : null;
+}
+
+/**
+ * @returns English name of a country, or null if the code is unknown
+ */
+export function getCountryName(iso2: string): string | null {
+    return countries.find(c => c.iso2 === iso2)?.name_en ?? null;
+}
+
+/**
+ * Continent of a country, as the dataset records it
+ * @returns The region, or null for territories the dataset gives no continent
+ */
+export function getCountryRegion(iso2: string): Region | null {
+    return getRegionOfContinent(countries.find(c => c.iso2 === iso2)?.continent);
+}
+
+/**
+ * Distance from a location to the nearest border of a country
+ * @returns Distance in km, 0 if the location is inside the country
+ */
+export function getDistanceToCountry(lat: number, lon: number, iso2: string): number {
+    if (getCountryCodeAt(lat, lon) === iso2) return 0;
+
+    const polygons = polygonsByCountry.get(iso2);
+    if (!polygons) return Infinity;
+
+    // Find the closest point on any edge in a flat projection centred on the location,
+    // then measure the real distance to it
+    const cosLat = Math.max(0.01, Math.cos(lat * Math.PI / 180));
+    const project = (p: LatLon) => ({
+        x: (((p.lon - lon + 540) % 360) - 180) * cosLat,
+        y: p.lat - lat
+    });
+
+    let closest = { x: 0, y: 0 };
+    let closestSq = Infinity;
+    for (const points of polygons) {
+        for (let i = 0; i < points.length; i++) {
+            const a = project(points[i]);
+            const b = project(points[(i + 1) % points.length]);
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const lengthSq = dx * dx + dy * dy;
+            const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+            const x = a.x + t * dx;
+            const y = a.y + t * dy;
+            if (x * x + y * y < closestSq) {
+                closestSq = x * x + y * y;
+                closest = { x, y };
+            }
+        }
+    }
+
+    return calculateDistance(lat, lon, lat + closest.y, lon + closest.x / cosLat);
+}
+
+/**
+ * Sovereign countries the picker can recognise, for country questions
+ */
+export function getCountryList(): CountryInfo[] {
+    const area = (box: ReturnType<typeof calculateBoundingBox>) =>
+        (box.maxLat - box.minLat) * (box.maxLon - box.minLon);
+
+    return countries
+        .filter(c => c.is_sovereign && polygonsByCountry.has(c.iso2))
+        .map(c => {
+            const bbox = polygonsByCountry.get(c.iso2)!
+                .map(points => calculateBoundingBox(points))
+                .reduce((largest, box) => area(box) > area(largest) ? box : largest);
+            const center = { lat: (bbox.minLat + bbox.maxLat) / 2, lon: (bbox.minLon + bbox.maxLon) / 2 };
+            return {
+                iso2: c.iso2,
+                name: c.name_en,
+                center,
+                region: getRegionOfContinent(c.continent) ?? getRegion(center.lat, center.lon)
+            };
+        });
+}
@@ -0,0 +1,1625 @@
+/**
+ * Game Engine
+ *
+ * The party game rules - rooms, rounds, scoring and reconnects - without any
+ * networking. A server gives the engine one Connection per socket, forwards
+ * raw messages to handleMessage() and reports closed sockets with
+ * disconnect(). The engine replies through Connection.send() and announces
+ * what happens in the game through events.
+ *
+ * Time and randomness are injected so whole games can run headlessly in tests.
+ */
+
+import { randomUUID } from 'crypto';
+import { calculateDistance } from './cities';
+import { getCountryCodeAt, getCountryCodeByName, getDistanceToCountry } from './countries';
+import { WORLD_CITIES_PACK, DEFAULT_PACK_ID, getPackInfo, type QuestionPack } from './questionPacks';
+import {
+    DEFAULT_CATCH_UP,
+    DEFAULT_SCORING_MODEL,
+    SPEED_BONUS_WINDOW_MS,
+    calculateSpeedBonus,
+    getCatchUpScore,
+    isCatchUpScore,
+    isScoringModel,
+    scoreAnswers,
+    type CatchUpScore,
+    type ScoredAnswer,
+    type ScoringModel
+} from '../shared/scoring';
+import { DEFAULT_TEAM_SCORING, MIN_TEAMS, MAX_TEAMS } from '../shared/teams';
+import { MAX_BOTS_PER_ROOM } from '../shared/bots';
+import { DAILY_ROUNDS, createSeededRandom, getDailySeed, normalizeSeed } from '../shared/daily';
+import { createBotProfile, getBotAnswer, getBotThinkTime, pickBotName, type BotProfile } from './bots';
+import { checkAnswer } from './answerChecks';
+import { getHintText } from './hints';
+import { applyHintCost, type HintType } from '../shared/hints';
+import { MAX_REACTIONS_PER_WINDOW, REACTION_WINDOW_MS } from '../shared/reactions';
+import { calculateCentroid, getRegion, isInRegionBounds, isRegion, type Region } from '../shared/geo';
+import { isQuestionDifficulty, type QuestionDifficulty } from '../shared/difficulty';
+import {
+    parseClientMessage,
+    isHandshakeMessage,
+    checkProtocolVersion,
+    type ClientMessage,
+    type ServerMessage,
+    type MessageOfType,
+    type HostConnectMessage,
+    type HostInfoMessage,
+    type RecordedPosition,
+    type StartGameMessage,
+    type StateSnapshotMessage
+} from '../shared/protocol';
+import type {
+    GameRecord,
+    GameState,
+    LobbyPlayer,
+    Question,
+    QuestionPackInfo,
+    QuestionPrompt,
+    RevealData,
+    RoundResult,
+    TeamRoundResult,
+    TeamSettings,
+    TeamStanding
+} from '../shared/types';
+
+// ===== Transport =====
+
+/**
+ * One client socket as seen by the engine
+ * Servers wrap their WebSocket in this; tests pass fakes that record messages
+ */
+export interface Connection {
+    send(message: ServerMessage): void;
+}
+
+// ===== Injectable Clock =====
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// ===== Options & Events =====
+
+/** How players reach the party - differs between the dev and production servers */
+export type JoinInfo = Pick<HostInfoMessage, 'joinUrl' | 'localIP' | 'webPort'>;
+
+export interface GameEngineOptions {
+    clock?: Clock;
+    random?: () => number;   // Returns [0, 1) like Math.random
+    questionPacks?: QuestionPack[];  // Defaults to the built-in city pack
+    getJoinInfo?: (handshake: HostConnectMessage, code: string) => JoinInfo;
+    findGame?: (id: string) => GameRecord | null;  // Finished games, for challenges
+}
+
+export interface GameEngineEvents {
+    'log': (message: string, data?: unknown) => void;
+    'room-created': (code: string) => void;
+    'room-closed': (code: string) => void;
+    'round-started': (code: string, round: number, question: Question) => void;
+    'round-revealed': (code: string, reveal: RevealData) => void;
+    'game-finished': (record: GameRecord) => void;
+}
+
+// ===== Room State =====
+
+// Spectators use the same record, so they can resume too - isFirst is always false for them
+interface RoomPlayer {
+    name: string;
+    isFirst: boolean;
+    connection: Connection;
+    token: string;                        // Resume token handed out on join
+    disconnectTimer: TimerHandle | null;
+    team: number | null;                  // Zero-based team index in team mode
+    bot: BotProfile | null;               // Set for computer players the engine answers for
+    waiting: boolean;                     // Joined a running game - plays from the next question
+    away: boolean;                        // Missed heartbeats or disconnected - doesn't hold up the round
+}
+
+interface Answer {
+    lat: number;
+    lon: number;
+    positions: RecordedPosition[];
+    hints: HintType[];                // Taken before answering, each one costs points
+    answerTime: number;               // ms the player took, without pauses or their connection's round trip
+}
+
+interface Room {
+    code: string;
+    players: RoomPlayer[];
+    spectators: RoomPlayer[];         // Watch the game, never answer or score
+    hosts: Set<Connection>;
+    hostToken: string;                // Handed to host screens - the join code alone doesn't make anyone host
+    daily: string | null;             // Seed of a solo daily challenge - these rooms are private
+    challenge: GameRecord | null;     // Recorded game a solo challenger plays against - also private
+    gameStarted: boolean;
+    pack: QuestionPack;
+    deck: Question[];                 // Questions not yet asked this game
+    currentQuestion: Question | null;
+    questionAskedAt: number;          // Epoch ms the current question was sent
+    pausedAt: number | null;          // Epoch ms the current round was paused
+    pausedMs: number;                 // Time the current round spent paused, left out of answer times
+    revealed: boolean;                // Whether the current round's results have been sent
+    lastReveal: RevealData | null;    // Last reveal payload, replayed to reconnecting screens
+    finished: boolean;                // Whether final results have been sent
+    startedAt: number;                // Epoch ms the current game started
+    rounds: RevealData[];             // Reveals of the current game, kept for the game history
+    answers: Map<string, Answer>;     // playerName -> answer
+    hints: Map<string, HintType[]>;   // playerName -> hints taken this round
+    reactionTimes: Map<string, number[]>;  // playerName -> when their recent reactions were sent, for rate limiting
+    scores: Map<string, number>;      // playerName -> total score
+    teams: TeamSettings | null;       // null when everyone plays for themselves
+    teamScores: Map<number, number>;  // team -> total score
+    maxRounds: number;
+    currentRound: number;
+    timeLimit: number;                // Seconds per round, 0 = wait for everyone
+    scoringModel: ScoringModel;
+    catchUp: CatchUpScore;            // Starting score of players who join mid-game
+    speedBonus: boolean;              // Quick answers earn extra points
+    hintsEnabled: boolean;            // Players may take hints
+    continent: Region | null;         // Questions limited to one continent, null for the whole world
+    difficulty: QuestionDifficulty | null;  // Questions limited to one tier, null for any
+    deadline: number | null;          // Epoch ms when the current round auto-reveals
+    roundTimer: TimerHandle | null;
+    roundStartTimer: TimerHandle | null;  // First question of a game that just started
+    finishTimer: TimerHandle | null;  // Final results after the last reveal
+    paused: boolean;                  // Round timer stopped by a moderator
+    pausedRemainingMs: number | null; // Time left on the round timer when it was paused
+    botTimers: TimerHandle[];         // Pending bot answers for the current question
+}
+
+// What a connection has identified itself as
+interface Session {
+    room: Room | null;
+    playerName: string | null;
+    isHost: boolean;
+    isSpectator: boolean;
+    roundTripMs: number | null;       // Smoothed heartbeat round trip, taken off answer times
+}
+
+const ROOM_CODE_LENGTH = 4;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O - too easy to confuse with 1 and 0
+
+const DEFAULT_MAX_ROUNDS = 2;
+
+// How long a disconnected player keeps their seat (name, score, answer) before being dropped
+export const RECONNECT_GRACE_MS = 30000;
+
+export const ROUND_START_DELAY_MS = 2000;     // Between game-start and the first question
+export const FINAL_RESULTS_DELAY_MS = 5000;   // Between the last reveal and final results
+
+// Bots answer at least this long before the round deadline
+const BOT_DEADLINE_MARGIN_MS = 1000;
+// How often a bot whose answer fell into a pause tries again
+const BOT_PAUSE_RETRY_MS = 1000;
+
+// Answer times make up for at most this much connection lag
+const MAX_ROUND_TRIP_ALLOWANCE_MS = 1000;
+// Weight of each new heartbeat in the smoothed round trip
+const ROUND_TRIP_SMOOTHING = 0.3;
+
+// Bounds for the per-round time limit chosen at game start (seconds)
+const MIN_TIME_LIMIT = 5;
+const MAX_TIME_LIMIT = 600;
+
+export function normalizeRoomCode(code: unknown): string {
+    return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+export function isValidRoomCode(code: string): boolean {
+    return code.length === ROOM_CODE_LENGTH &&
+        [...code].every(c => ROOM_CODE_ALPHABET.includes(c));
+}
+
+export function parseTimeLimit(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return 0;
+    return Math.round(Math.min(MAX_TIME_LIMIT, Math.max(MIN_TIME_LIMIT, value)));
+}
+
+/**
+ * @param hints Whether the game offers hints - the country hint is worthless if the prompt names the country
+ */
+function toPrompt(question: Question, hints: boolean): QuestionPrompt {
+    const { correctAnswer, fame, population, continent, difficulty, country, countryCode, ...prompt } = question;
+    if (question.mode === 'country') return { ...prompt, country, countryCode };
+    // A location question's countryCode would give the answer away
+    return hints ? prompt : { ...prompt, country };
+}
+
+/**
+ * Questions matching the lobby's continent and difficulty filters
+ * Questions without a tier pass any difficulty, so unrated packs still play
+ * A continent's answers must also lie in its camera box, which clients frame and lock to
+ */
+function filterQuestions(questions: Question[], continent: Region | null, difficulty: QuestionDifficulty | null): Question[] {
+    return questions.filter(q =>
+        (!continent || ((q.continent ?? getRegion(q.correctAnswer.lat, q.correctAnswer.lon)) === continent &&
+            isInRegionBounds(q.correctAnswer.lat, q.correctAnswer.lon, continent))) &&
+        (!difficulty || !q.difficulty || q.difficulty === difficulty)
+    );
+}
+
+/** Everyone with an answer in a recorded game, including players who left before the end */
+function getRecordedNames(record: GameRecord): string[] {
+    return [...new Set(record.rounds.flatMap(round => round.results.map(r => r.name)))];
+}
+
+/**
+ * A recorded round's question - the pack's own copy when it still has one,
+ * so category and image come back too
+ */
+function toChallengeQuestion(pack: QuestionPack, gameId: string, round: RevealData): Question {
+    const { correct } = round;
+    return pack.questions.find(q =>
+        q.text === correct.name && q.correctAnswer.lat === correct.lat && q.correctAnswer.lon === correct.lon
+    ) ?? {
+        id: `${gameId}-${round.round}`,
+        text: correct.name,
+        correctAnswer: { lat: correct.lat, lon: correct.lon },
+        country: correct.country,
+        mode: correct.mode,
+        countryCode: correct.countryCode
+    };
+}
+
+// Bots never receive anything - the engine plays for them
+const botConnection: Connection = { send: () => {} };
+
+export class GameEngine {
+    private rooms = new Map<string, Room>();           // code -> room
+    private sessions = new Map<Connection, Session>();
+    private listeners: { [K in keyof GameEngineEvents]?: GameEngineEvents[K][] } = {};
+
+    private clock: Clock;
+    private random: () => number;
+    private packs: QuestionPack[];
+    private getJoinInfo: (handshake: HostConnectMessage, code: string) => JoinInfo;
+    private findGame: (id: string) => GameRecord | null;
+
+    constructor(options: GameEngineOptions = {}) {
+        this.clock = options.clock ?? systemClock;
+        this.random = options.random ?? Math.random;
+        this.packs = options.questionPacks ?? [WORLD_CITIES_PACK];
+        this.getJoinInfo = options.getJoinInfo ?? (() => ({}));
+        this.findGame = options.findGame ?? (() => null);
+    }
+
+    // ===== Events =====
+
+    on<K extends keyof GameEngineEvents>(event: K, listener: GameEngineEvents[K]): void {
+        const listeners = (this.listeners[event] ??= []) as GameEngineEvents[K][];
+        listeners.push(listener);
+    }
+
+    private emit<K extends keyof GameEngineEvents>(event: K, ...args: Parameters<GameEngineEvents[K]>): void {
+        this.listeners[event]?.forEach(listener => (listener as (...a: unknown[]) => void)(...args));
+    }
+
+    private log(message: string, data?: unknown): void {
+        this.emit('log', message, data);
+    }
+
+    // ===== Transport Hooks =====
+
+    connect(connection: Connection): void {
+        this.sessions.set(connection, { room: null, playerName: null, isHost: false, isSpectator: false, roundTripMs: null });
+        this.log('Client connected');
+    }
+
+    /**
+     * Validate a raw message from a connection and apply it
+     */
+    handleMessage(connection: Connection, raw: string): void {
+        try {
+            const parsed = parseClientMessage(raw);
+            if (!parsed.ok) {
+                this.log('Rejected message:', parsed.error);
+                connection.send({ type: 'error', code: 'invalid-message', message: parsed.error });
+                return;
+            }
+
+            this.log('Received:', parsed.message);
+            this.handleCommand(connection, parsed.message);
+        } catch (err) {
+            this.log('Error handling message:', err);
+        }
+    }
+
+    /**
+     * Apply an already validated message from a connection
+     */
+    handleCommand(connection: Connection, message: ClientMessage): void {
+        const session = this.sessions.get(connection);
+        if (!session) return;
+
+        if (isHandshakeMessage(message)) {
+            const versionError = checkProtocolVersion(message);
+            if (versionError) {
+                this.log(`Protocol mismatch: client v${message.protocolVersion}`);
+                connection.send({ type: 'error', code: 'protocol-mismatch', message: versionError });
+                return;
+            }
+        }
+
+        switch (message.type) {
+            case 'host-connect': this.hostConnect(connection, session, message); break;
+            case 'join': this.join(connection, session, message); break;
+            case 'resume': this.resume(connection, session, message); break;
+            case 'start-daily': this.startDaily(connection, session, message); break;
+            case 'start-challenge': this.startChallenge(connection, session, message); break;
+            case 'start-game': this.startGame(session, message); break;
+            case 'request-hint': this.requestHint(connection, session, message); break;
+            case 'reaction': this.sendReaction(session, message); break;
+            case 'submit-answer': this.submitAnswer(session, message); break;
+            case 'next-round': this.nextRound(session); break;
+            case 'reset-game': this.resetGame(connection, session); break;
+            case 'play-again': this.playAgain(connection, session); break;
+            case 'set-teams': this.setTeams(session, message); break;
+            case 'choose-team': this.chooseTeam(session, message); break;
+            case 'kick-player': this.kickPlayer(connection, session, message); break;
+            case 'pause-round': this.pauseRound(connection, session); break;
+            case 'resume-round': this.resumeRound(connection, session); break;
+            case 'skip-question': this.skipQuestion(connection, session); break;
+            case 'end-game': this.endGame(connection, session); break;
+            case 'add-bot': this.addBot(connection, session, message); break;
+        }
+    }
+
+    disconnect(connection: Connection): void {
+        const session = this.sessions.get(connection);
+        this.sessions.delete(connection);
+
+        const room = session?.room;
+        if (!session || !room) {
+            this.log('Client disconnected');
+            return;
+        }
+
+        if (session.isHost) {
+            room.hosts.delete(connection);
+            this.log(`[${room.code}] Host disconnected`);
+        } else if (session.playerName) {
+            // Ignore connections that were replaced by a resumed connection
+            const seats = session.isSpectator ? room.spectators : room.players;
+            const player = seats.find(p => p.name === session.playerName && p.connection === connection);
+            if (player) {
+                this.log(`[${room.code}] ${session.isSpectator ? 'Spectator' : 'Player'} disconnected: ${player.name} (holding seat for ${RECONNECT_GRACE_MS / 1000}s)`);
+                player.disconnectTimer = this.clock.setTimeout(() => this.removePlayer(room, player), RECONNECT_GRACE_MS);
+                if (!session.isSpectator) this.markAway(room, player, true);
+            }
+        }
+        this.deleteRoomIfEmpty(room);
+        this.log('Client disconnected');
+    }
+
+    /**
+     * The transport lost (or regained) contact with a connection without it closing,
+     * e.g. a phone that locked its screen stopped answering heartbeats
+     */
+    setAway(connection: Connection, away: boolean): void {
+        const session = this.sessions.get(connection);
+        const room = session?.room;
+        if (!session || !room || session.isHost || session.isSpectator) return;
+
+        const player = room.players.find(p => p.name === session.playerName && p.connection === connection);
+        if (player) this.markAway(room, player, away);
+    }
+
+    /**
+     * The transport timed a heartbeat - answer times have the connection's round trip
+     * taken off, so players on slow connections aren't slower to the speed bonus
+     */
+    setRoundTrip(connection: Connection, ms: number): void {
+        const session = this.sessions.get(connection);
+        if (!session) return;
+
+        session.roundTripMs = session.roundTripMs === null
+            ? ms
+            : Math.round(session.roundTripMs + (ms - session.roundTripMs) * ROUND_TRIP_SMOOTHING);
+    }
+
+    getStats(): { rooms: number; players: number; spectators: number } {
+        const rooms = [...this.rooms.values()];
+        const players = rooms.reduce((sum, room) => sum + room.players.length, 0);
+        const spectators = rooms.reduce((sum, room) => sum + room.spectators.length, 0);
+        return { rooms: this.rooms.size, players, spectators };
+    }
+
+    // ===== Commands =====
+
+    private hostConnect(connection: Connection, session: Session, message: HostConnectMessage): void {
+        // A reconnecting host sends the code and token it had before so it lands in the same room -
+        // players know the code, so without the token it gets a room of its own
+        const requestedCode = normalizeRoomCode(message.code);
+        const existing = this.rooms.get(requestedCode);
+        const room = existing && !this.isSoloRoom(existing) && message.hostToken === existing.hostToken
+            ? existing
+            : this.createRoom(isValidRoomCode(requestedCode) && !existing ? requestedCode : this.generateRoomCode());
+
+        session.room = room;
+        session.isHost = true;
+        room.hosts.add(connection);
+
+        const joinInfo = this.getJoinInfo(message, room.code);
+        this.log(`Host connected to room ${room.code}:`, joinInfo);
+        connection.send({
+            type: 'host-info',
+            code: room.code,
+            hostToken: room.hostToken,
+            ...joinInfo,
+            players: this.getPlayerList(room),
+            spectators: this.getSpectatorList(room)
+        });
+
+        // Let a reconnecting host screen rebuild the current round
+        connection.send(this.getStateSnapshot(room));
+    }
+
+    private join(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'join'>): void {
+        const code = normalizeRoomCode(message.code);
+        const room = this.rooms.get(code);
+        if (!room || this.isSoloRoom(room)) {
+            connection.send({
+                type: 'error',
+                code: 'room-not-found',
+                message: code ? `No party found with code ${code}` : 'Enter a party code to join'
+            });
+            return;
+        }
+
+        const name = message.name.trim();
+        if (room.players.some(p => p.name === name) || room.spectators.some(s => s.name === name)) {
+            connection.send({ type: 'error', code: 'name-taken', message: 'Name already taken' });
+            return;
+        }
+
+        const spectator = message.spectator === true;
+        // Bots may be seated before anyone joins, but never host the party
+        const isFirst = !spectator && !room.players.some(p => p.isFirst);
+        const token = randomUUID();
+        const team = !spectator && room.teams ? this.getSmallestTeam(room) : null;
+        // Nobody joins a question halfway through - late joiners start with the next one
+        const waiting = !spectator && room.gameStarted;
+        (spectator ? room.spectators : room.players).push({ name, isFirst, connection, token, disconnectTimer: null, team, bot: null, waiting, away: false });
+        session.room = room;
+        session.playerName = name;
+        session.isSpectator = spectator;
+
+        this.log(`[${room.code}] ${spectator ? 'Spectator' : 'Player'} joined: ${name} (isFirst: ${isFirst}${waiting ? ', waiting for the next round' : ''})`);
+
+        connection.send({
+            type: 'joined',
+            name,
+            code: room.code,
+            token,
+            isFirst,
+            spectator,
+            players: this.getPlayerList(room),
+            packs: this.getPackList()
+        });
+
+        this.broadcastPlayerList(room);
+
+        // Late joiners need to see the round that is already running
+        if (room.gameStarted) {
+            connection.send(this.getStateSnapshot(room));
+        }
+    }
+
+    private resume(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'resume'>): void {
+        const found = this.findPlayerByToken(message.token);
+        if (!found) {
+            connection.send({ type: 'resume-failed' });
+            return;
+        }
+
+        const { room, player, spectator } = found;
+
+        // Another screen took the seat over while the old one is still connected - it no longer plays as this player
+        const previousSession = player.connection !== connection ? this.sessions.get(player.connection) : undefined;
+        if (previousSession) {
+            player.connection.send({ type: 'kicked', message: 'You rejoined the party from another screen' });
+            previousSession.room = null;
+            previousSession.playerName = null;
+        }
+
+        this.clock.clearTimeout(player.disconnectTimer);
+        player.disconnectTimer = null;
+        player.connection = connection;
+        session.room = room;
+        session.playerName = player.name;
+        session.isSpectator = spectator;
+
+        const hasAnswered = room.answers.has(player.name);
+        this.log(`[${room.code}] Player resumed: ${player.name} (score: ${room.scores.get(player.name) || 0}, answered: ${hasAnswered})`);
+
+        connection.send({
+            type: 'joined',
+            name: player.name,
+            code: room.code,
+            token: player.token,
+            isFirst: player.isFirst,
+            spectator,
+            resumed: true,
+            players: this.getPlayerList(room),
+            packs: this.getPackList()
+        });
+
+        if (!spectator) this.markAway(room, player, false);
+
+        // Bring the player back into the running game
+        connection.send(this.getStateSnapshot(room));
+    }
+
+    /**
+     * Open a private room for one player and start the seeded daily game straight away
+     */
+    private startDaily(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'start-daily'>): void {
+        const seed = normalizeSeed(message.seed) ?? getDailySeed(new Date(this.clock.now()));
+        const room = this.createRoom(this.generateRoomCode());
+        room.daily = seed;
+
+        const name = message.name.trim();
+        this.log(`[${room.code}] ${name} started the daily challenge (seed: ${seed})`);
+        this.seatSoloPlayer(connection, session, room, name);
+
+        // Same pack and seed, same questions - whatever the engine's own RNG is doing
+        const pack = this.findPack(DEFAULT_PACK_ID);
+        this.beginGame(room, { maxRounds: DAILY_ROUNDS, pack: pack.id }, this.shuffle(pack.questions, createSeededRandom(seed)));
+    }
+
+    /**
+     * Open a private room where one player answers a finished game's questions,
+     * scored together with the answers its players gave at the time
+     */
+    private startChallenge(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'start-challenge'>): void {
+        const record = this.findGame(message.gameId);
+        if (!record || record.rounds.length === 0) {
+            connection.send({ type: 'error', code: 'game-not-found', message: 'That challenge no longer exists' });
+            return;
+        }
+
+        const name = message.name.trim();
+        if (getRecordedNames(record).includes(name)) {
+            connection.send({ type: 'error', code: 'name-taken', message: `${name} already played this game - pick another name` });
+            return;
+        }
+
+        const room = this.createRoom(this.generateRoomCode());
+        room.challenge = record;
+        this.log(`[${room.code}] ${name} took on the challenge of game ${record.id}`);
+        this.seatSoloPlayer(connection, session, room, name);
+
+        // Recorded questions in their original order - the deck is dealt from the end
+        const pack = this.findPack(record.pack.id);
+        const questions = record.rounds.map(round => toChallengeQuestion(pack, record.id, round));
+        this.beginGame(room, { maxRounds: questions.length, scoring: record.scoring, pack: pack.id }, questions.reverse());
+    }
+
+    private seatSoloPlayer(connection: Connection, session: Session, room: Room, name: string): void {
+        const token = randomUUID();
+        room.players.push({ name, isFirst: true, connection, token, disconnectTimer: null, team: null, bot: null, waiting: false, away: false });
+        session.room = room;
+        session.playerName = name;
+        session.isSpectator = false;
+
+        connection.send({
+            type: 'joined',
+            name,
+            code: room.code,
+            token,
+            isFirst: true,
+            spectator: false,
+            players: this.getPlayerList(room),
+            packs: this.getPackList()
+        });
+    }
+
+    private startGame(session: Session, message: MessageOfType<ClientMessage, 'start-game'>): void {
+        const { room } = session;
+        if (!room || this.isSoloRoom(room)) return; // Solo rooms only play their challenge
+        const player = room.players.find(p => p.name === session.playerName);
+        if (!player || !player.isFirst) return;
+
+        this.beginGame(room, message);
+    }
+
+    /**
+     * @param deck Questions to deal from the end - a fresh shuffle of the pack unless the game is replayable
+     */
+    private beginGame(room: Room, settings: Omit<StartGameMessage, 'type'>, deck?: Question[]): void {
+        room.gameStarted = true;
+        room.timeLimit = parseTimeLimit(settings.timeLimit);
+        room.scoringModel = isScoringModel(settings.scoring) ? settings.scoring : DEFAULT_SCORING_MODEL;
+        room.catchUp = isCatchUpScore(settings.catchUp) ? settings.catchUp : DEFAULT_CATCH_UP;
+        room.pack = this.findPack(settings.pack);
+        room.continent = isRegion(settings.continent) ? settings.continent : null;
+        room.difficulty = isQuestionDifficulty(settings.difficulty) ? settings.difficulty : null;
+        room.speedBonus = settings.speedBonus === true;
+        room.hintsEnabled = settings.hints === true;
+        room.deck = deck ?? this.shuffle(this.getQuestions(room));
+        room.currentRound = 0;
+        room.currentQuestion = null;
+        this.clearRoundTimer(room);
+        this.clearGameTimers(room);
+        room.lastReveal = null;
+        room.finished = false;
+        room.startedAt = this.clock.now();
+        room.rounds = [];
+        room.scores.clear();
+        room.teamScores.clear();
+        room.reactionTimes.clear();
+        room.players.forEach(p => p.waiting = false); // Everyone seated plays from the first question
+
+        if (settings.maxRounds && settings.maxRounds > 0) {
+            room.maxRounds = settings.maxRounds;
+        }
+        // Questions never repeat within a game, so small packs cap the round count
+        room.maxRounds = Math.min(room.maxRounds, room.deck.length);
+
+        this.log(`[${room.code}] Game started! Max rounds: ${room.maxRounds}, time limit: ${room.timeLimit || 'none'}, scoring: ${room.scoringModel}, pack: ${room.pack.id}, catch-up: ${room.catchUp}, continent: ${room.continent ?? 'any'}, difficulty: ${room.difficulty ?? 'any'}, speed bonus: ${room.speedBonus}, hints: ${room.hintsEnabled}`);
+        this.broadcast(room, {
+            type: 'game-start',
+            maxRounds: room.maxRounds,
+            timeLimit: room.timeLimit,
+            scoring: room.scoringModel,
+            pack: getPackInfo(room.pack),
+            teams: room.teams,
+            ...(room.continent ? { continent: room.continent } : {}),
+            ...(room.difficulty ? { difficulty: room.difficulty } : {}),
+            ...(room.speedBonus ? { speedBonus: true } : {}),
+            ...(room.hintsEnabled ? { hints: true } : {}),
+            ...(room.daily ? { daily: room.daily } : {}),
+            ...(room.challenge ? { challenge: room.challenge.id } : {})
+        });
+
+        // Start first round after short delay
+        room.roundStartTimer = this.clock.setTimeout(() => {
+            room.roundStartTimer = null;
+            this.startNewRound(room);
+        }, ROUND_START_DELAY_MS);
+    }
+
+    /**
+     * Send a clue to the current question - asking again for the same hint is free
+     */
+    private requestHint(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'request-hint'>): void {
+        const { room, playerName } = session;
+        if (!room || !playerName || session.isSpectator) return;
+        if (!room.gameStarted || !room.currentQuestion || room.revealed || room.paused) return;
+        if (room.answers.has(playerName)) return; // Too late once the pin is in
+        if (this.isWaiting(room, playerName)) return;
+        if (!room.hintsEnabled) {
+            connection.send({ type: 'error', code: 'not-allowed', message: 'Hints are off in this game' });
+            return;
+        }
+
+        const text = getHintText(message.hint, room.currentQuestion);
+        if (text === null) {
+            connection.send({ type: 'error', code: 'not-allowed', message: 'No such hint for this question' });
+            return;
+        }
+
+        const taken = room.hints.get(playerName) ?? [];
+        if (!taken.includes(message.hint)) {
+            room.hints.set(playerName, [...taken, message.hint]);
+            this.log(`[${room.code}] ${playerName} took the ${message.hint} hint`);
+        }
+        connection.send({ type: 'hint', hint: message.hint, text });
+    }
+
+    /**
+     * Pass a player's reaction to the results on to the host screens
+     * Each player gets a few per window - the rest are dropped
+     */
+    private sendReaction(session: Session, message: MessageOfType<ClientMessage, 'reaction'>): void {
+        const { room, playerName } = session;
+        if (!room || !playerName || session.isSpectator) return;
+        if (!room.gameStarted || !room.revealed) return; // Results only
+
+        const now = this.clock.now();
+        const recent = (room.reactionTimes.get(playerName) ?? []).filter(time => now - time < REACTION_WINDOW_MS);
+        if (recent.length >= MAX_REACTIONS_PER_WINDOW) return;
+        room.reactionTimes.set(playerName, [...recent, now]);
+
+        room.hosts.forEach(host => host.send({ type: 'reaction', playerName, emoji: message.emoji }));
+    }
+
+    private submitAnswer(session: Session, message: MessageOfType<ClientMessage, 'submit-answer'>): void {
+        const { room, playerName } = session;
+        if (!room || !playerName || session.isSpectator) return;
+        if (!room.gameStarted || !room.currentQuestion || room.revealed || room.paused) return;
+        if (room.answers.has(playerName)) return; // Already answered
+        if (this.isWaiting(room, playerName)) return; // Joined after this question was asked
+
+        const answer: Answer = {
+            lat: message.lat,
+            lon: message.lon,
+            positions: message.positions || [], // Optional recorded positions
+            hints: room.hints.get(playerName) ?? [],
+            answerTime: this.getAnswerTime(room, session.roundTripMs ?? 0)
+        };
+
+        // Suspicious answers still count - the host decides what to do about them
+        const reasons = checkAnswer(answer.lat, answer.lon, answer.positions, this.clock.now() - room.questionAskedAt);
+        if (reasons.length > 0) {
+            this.log(`[${room.code}] Implausible answer from ${playerName}: ${reasons.join('; ')}`);
+            room.hosts.forEach(host => host.send({ type: 'answer-flagged', playerName, round: room.currentRound, reasons }));
+        }
+
+        this.recordAnswer(room, playerName, answer);
+    }
+
+    /**
+     * Time since the question was sent, less pauses and the time the question and the answer
+     * spent on the wire - the server's clock only, so players can't claim a faster answer
+     */
+    private getAnswerTime(room: Room, roundTripMs: number): number {
+        const elapsed = this.clock.now() - room.questionAskedAt - room.pausedMs;
+        return Math.max(0, Math.round(elapsed - Math.min(roundTripMs, MAX_ROUND_TRIP_ALLOWANCE_MS)));
+    }
+
+    /** Store a player's (or bot's) pin and reveal once everyone is in */
+    private recordAnswer(room: Room, playerName: string, answer: Answer): void {
+        if (room.answers.has(playerName)) return; // Already answered
+
+        room.answers.set(playerName, answer);
+        this.log(`[${room.code}] ${playerName} answered: lat=${answer.lat}, lon=${answer.lon}, positions=${answer.positions.length}`);
+
+        this.broadcast(room, {
+            type: 'player-answered',
+            playerName
+        });
+
+        this.checkAllAnswered(room);
+    }
+
+    private nextRound(session: Session): void {
+        const { room } = session;
+        if (!room) return;
+        const player = room.players.find(p => p.name === session.playerName);
+        this.log(`[${room.code}] next-round request from ${session.playerName} (isFirst: ${player?.isFirst}, gameStarted: ${room.gameStarted}, currentRound: ${room.currentRound}/${room.maxRounds})`);
+
+        if (!player || !player.isFirst || !room.gameStarted) {
+            this.log(`next-round DENIED - player: ${!!player}, isFirst: ${player?.isFirst}, gameStarted: ${room.gameStarted}`);
+            return;
+        }
+
+        if (room.currentRound >= room.maxRounds || room.finished) {
+            this.log('Game already finished - ignoring next-round request');
+            return;
+        }
+
+        this.log('Starting next round...');
+        this.startNewRound(room);
+    }
+
+    private resetGame(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room) return;
+        this.log(`[${room.code}] Resetting game state...`);
+
+        // Notify the room before its players are dropped
+        this.broadcast(room, { type: 'game-reset' });
+
+        // Clear game state - hosts stay attached so the lobby screen keeps working
+        [...room.players, ...room.spectators].forEach(p => this.clock.clearTimeout(p.disconnectTimer));
+        room.players.length = 0;
+        room.spectators.length = 0;
+        this.clearRoundTimer(room);
+        this.clearGameTimers(room);
+        this.clearBotTimers(room);
+        room.timeLimit = 0;
+        room.scoringModel = DEFAULT_SCORING_MODEL;
+        room.catchUp = DEFAULT_CATCH_UP;
+        room.continent = null;
+        room.difficulty = null;
+        room.speedBonus = false;
+        room.hintsEnabled = false;
+        room.pack = this.findPack(DEFAULT_PACK_ID);
+        room.deck = [];
+        room.gameStarted = false;
+        room.currentQuestion = null;
+        room.lastReveal = null;
+        room.finished = false;
+        room.rounds = [];
+        room.answers.clear();
+        room.hints.clear();
+        room.reactionTimes.clear();
+        room.scores.clear();
+        room.teams = null;
+        room.teamScores.clear();
+        room.currentRound = 0;
+        room.maxRounds = DEFAULT_MAX_ROUNDS;
+
+        this.log(`[${room.code}] Game reset complete`);
+    }
+
+    /**
+     * Start over with the same players, teams and settings - unlike reset-game nobody has to rejoin
+     */
+    private playAgain(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room || this.isSoloRoom(room) || !room.finished) return;
+
+        this.log(`[${room.code}] Playing again with ${room.players.length} players`);
+        this.beginGame(room, {
+            maxRounds: room.maxRounds,
+            timeLimit: room.timeLimit,
+            scoring: room.scoringModel,
+            pack: room.pack.id,
+            catchUp: room.catchUp,
+            continent: room.continent ?? undefined,
+            difficulty: room.difficulty ?? undefined,
+            speedBonus: room.speedBonus,
+            hints: room.hintsEnabled
+        });
+    }
+
+    private setTeams(session: Session, message: MessageOfType<ClientMessage, 'set-teams'>): void {
+        const { room } = session;
+        if (!room || room.gameStarted) return;
+        const player = room.players.find(p => p.name === session.playerName);
+        if (!player || !player.isFirst) return;
+
+        if (message.teamCount < MIN_TEAMS) {
+            room.teams = null;
+            room.players.forEach(p => p.team = null);
+            this.log(`[${room.code}] Team mode off`);
+        } else {
+            room.teams = {
+                count: Math.min(MAX_TEAMS, Math.round(message.teamCount)),
+                scoring: message.teamScoring ?? room.teams?.scoring ?? DEFAULT_TEAM_SCORING
+            };
+            // Keep choices that still fit, deal everyone else out evenly
+            room.players.forEach(p => {
+                if (p.team !== null && p.team >= room.teams!.count) p.team = null;
+            });
+            room.players.filter(p => p.team === null).forEach(p => p.team = this.getSmallestTeam(room));
+            this.log(`[${room.code}] Team mode: ${room.teams.count} teams, scoring: ${room.teams.scoring}`);
+        }
+
+        this.broadcastPlayerList(room);
+    }
+
+    private chooseTeam(session: Session, message: MessageOfType<ClientMessage, 'choose-team'>): void {
+        const { room } = session;
+        if (!room || room.gameStarted || !room.teams) return;
+        const player = room.players.find(p => p.name === session.playerName);
+        if (!player || !Number.isInteger(message.team) || message.team < 0 || message.team >= room.teams.count) return;
+
+        player.team = message.team;
+        this.log(`[${room.code}] ${player.name} joined team ${message.team}`);
+        this.broadcastPlayerList(room);
+    }
+
+    // ===== Moderation =====
+
+    /**
+     * Moderation is open to host screens and the party host (first player)
+     * @returns The room to moderate, or null after telling the client it isn't allowed
+     */
+    private authorize(connection: Connection, session: Session): Room | null {
+        const { room } = session;
+        if (!room) return null;
+
+        const isPartyHost = !session.isSpectator && room.players.some(p => p.connection === connection && p.isFirst);
+        if (session.isHost || isPartyHost) return room;
+
+        this.log(`[${room.code}] Moderation denied for ${session.playerName ?? 'unknown client'}`);
+        connection.send({ type: 'error', code: 'not-allowed', message: 'Only the host can do that' });
+        return null;
+    }
+
+    private kickPlayer(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'kick-player'>): void {
+        const room = this.authorize(connection, session);
+        if (!room) return;
+
+        const player = room.players.find(p => p.name === message.name) ?? room.spectators.find(s => s.name === message.name);
+        if (!player || player.connection === connection) return; // Nobody to kick, or kicking yourself
+
+        this.log(`[${room.code}] Kicking ${player.name}`);
+        player.connection.send({ type: 'kicked', message: 'The host removed you from the party' });
+
+        // The kicked connection no longer belongs to the room, so closing it doesn't hold a seat
+        const kickedSession = this.sessions.get(player.connection);
+        if (kickedSession) {
+            kickedSession.room = null;
+            kickedSession.playerName = null;
+        }
+        this.removePlayer(room, player);
+    }
+
+    private pauseRound(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room || !room.currentQuestion || room.revealed || room.paused) return;
+
+        const remaining = room.deadline !== null ? Math.max(0, room.deadline - this.clock.now()) : null;
+        this.clearRoundTimer(room);
+        room.paused = true;
+        room.pausedRemainingMs = remaining;
+        room.pausedAt = this.clock.now();
+
+        this.log(`[${room.code}] Round ${room.currentRound} paused${remaining !== null ? ` with ${Math.round(remaining / 1000)}s left` : ''}`);
+        this.broadcast(room, { type: 'round-paused' });
+    }
+
+    private resumeRound(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room || !room.paused) return;
+
+        const remaining = room.pausedRemainingMs;
+        room.paused = false;
+        room.pausedRemainingMs = null;
+        room.pausedMs += this.clock.now() - (room.pausedAt ?? this.clock.now());
+        room.pausedAt = null;
+        if (remaining !== null) {
+            this.startRoundTimer(room, remaining);
+        }
+
+        this.log(`[${room.code}] Round ${room.currentRound} resumed`);
+        this.broadcast(room, { type: 'round-resumed', deadline: room.deadline, serverTime: this.clock.now() });
+    }
+
+    private skipQuestion(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room || !room.currentQuestion || room.revealed || room.finished) return;
+        // Daily games must ask every player the seed's questions, challenges score each round against the recorded pins
+        if (this.isSoloRoom(room)) return;
+
+        this.log(`[${room.code}] Skipping question: ${room.currentQuestion.text}`);
+        this.clearRoundTimer(room);
+
+        if (room.deck.length === 0) {
+            this.log(`[${room.code}] No questions left to replace it - ending the game`);
+            room.revealed = true;
+            this.finishGame(room);
+            return;
+        }
+
+        // The replacement comes out of a later round's question, so the game gets shorter when there's no spare
+        const remainingRounds = room.maxRounds - room.currentRound + 1;
+        if (room.deck.length < remainingRounds) {
+            room.maxRounds = room.currentRound - 1 + room.deck.length;
+            this.log(`[${room.code}] Not enough questions left - game shortened to ${room.maxRounds} rounds`);
+        }
+
+        // Ask a fresh question for the same round
+        room.currentRound--;
+        this.startNewRound(room);
+    }
+
+    private endGame(connection: Connection, session: Session): void {
+        const room = this.authorize(connection, session);
+        if (!room || !room.gameStarted || room.finished) return;
+
+        this.log(`[${room.code}] Game ended early in round ${room.currentRound}/${room.maxRounds}`);
+        this.clearRoundTimer(room);
+        this.clearGameTimers(room);
+        room.revealed = true; // The unfinished round is not scored
+        this.finishGame(room);
+    }
+
+    private addBot(connection: Connection, session: Session, message: MessageOfType<ClientMessage, 'add-bot'>): void {
+        const room = this.authorize(connection, session);
+        if (!room || this.isSoloRoom(room)) return;
+
+        if (room.players.filter(p => p.bot).length >= MAX_BOTS_PER_ROOM) {
+            this.log(`[${room.code}] Bot limit reached`);
+            return;
+        }
+
+        const taken = [...room.players, ...room.spectators].map(p => p.name);
+        const name = pickBotName(taken, this.random);
+        room.players.push({
+            name,
+            isFirst: false,
+            connection: botConnection,
+            token: randomUUID(),
+            disconnectTimer: null,
+            team: room.teams ? this.getSmallestTeam(room) : null,
+            bot: createBotProfile(message.difficulty, this.random),
+            waiting: room.gameStarted,
+            away: false
+        });
+
+        this.log(`[${room.code}] Bot joined: ${name} (${message.difficulty})`);
+        this.broadcastPlayerList(room);
+    }
+
+    // ===== Rooms & Players =====
+
+    private generateRoomCode(): string {
+        let code: string;
+        do {
+            code = '';
+            for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+                code += ROOM_CODE_ALPHABET[Math.floor(this.random() * ROOM_CODE_ALPHABET.length)];
+            }
+        } while (this.rooms.has(code));
+        return code;
+    }
+
+    private createRoom(code: string): Room {
+        const room: Room = {
+            code,
+            players: [],
+            spectators: [],
+            hosts: new Set(),
+            hostToken: randomUUID(),
+            daily: null,
+            challenge: null,
+            gameStarted: false,
+            pack: this.findPack(DEFAULT_PACK_ID),
+            deck: [],
+            currentQuestion: null,
+            questionAskedAt: 0,
+            pausedAt: null,
+            pausedMs: 0,
+            revealed: false,
+            lastReveal: null,
+            finished: false,
+            startedAt: 0,
+            rounds: [],
+            answers: new Map(),
+            hints: new Map(),
+            reactionTimes: new Map(),
+            scores: new Map(),
+            teams: null,
+            teamScores: new Map(),
+            maxRounds: DEFAULT_MAX_ROUNDS,
+            currentRound: 0,
+            timeLimit: 0,
+            scoringModel: DEFAULT_SCORING_MODEL,
+            catchUp: DEFAULT_CATCH_UP,
+            speedBonus: false,
+            hintsEnabled: false,
+            continent: null,
+            difficulty: null,
+            deadline: null,
+            roundTimer: null,
+            roundStartTimer: null,
+            finishTimer: null,
+            paused: false,
+            pausedRemainingMs: null,
+            botTimers: []
+        };
+        this.rooms.set(code, room);
+        this.log(`Room created: ${code}`);
+        this.emit('room-created', code);
+        return room;
+    }
+
+    /** Daily and challenge rooms - nobody can join, host or start another game */
+    private isSoloRoom(room: Room): boolean {
+        return room.daily !== null || room.challenge !== null;
+    }
+
+    /** Players taking part in the current question - late joiners wait for the next one */
+    private getActivePlayers(room: Room): RoomPlayer[] {
+        return room.players.filter(p => !p.waiting);
+    }
+
+    private isWaiting(room: Room, playerName: string): boolean {
+        return room.players.some(p => p.name === playerName && p.waiting);
+    }
+
+    private findPlayerByToken(token: string): { room: Room; player: RoomPlayer; spectator: boolean } | null {
+        for (const room of this.rooms.values()) {
+            const player = room.players.find(p => p.token === token);
+            if (player) return { room, player, spectator: false };
+            const spectator = room.spectators.find(s => s.token === token);
+            if (spectator) return { room, player: spectator, spectator: true };
+        }
+        return null;
+    }
+
+    private removePlayer(room: Room, player: RoomPlayer): void {
+        this.clock.clearTimeout(player.disconnectTimer);
+
+        const spectatorIndex = room.spectators.indexOf(player);
+        if (spectatorIndex !== -1) {
+            room.spectators.splice(spectatorIndex, 1);
+            this.log(`[${room.code}] Spectator left: ${player.name}`);
+            this.broadcastPlayerList(room);
+            this.deleteRoomIfEmpty(room);
+            return;
+        }
+
+        const index = room.players.indexOf(player);
+        if (index === -1) return;
+
+        room.players.splice(index, 1);
+        this.log(`[${room.code}] Player left: ${player.name}`);
+
+        const nextHost = room.players.find(p => !p.bot);
+        if (nextHost && !room.players.some(p => p.isFirst)) {
+            nextHost.isFirst = true;
+            this.log(`[${room.code}] New host: ${nextHost.name}`);
+        }
+
+        this.broadcastPlayerList(room);
+
+        // The remaining players may now all have answered
+        this.checkAllAnswered(room);
+        this.deleteRoomIfEmpty(room);
+    }
+
+    private markAway(room: Room, player: RoomPlayer, away: boolean): void {
+        if (player.away === away) return;
+        player.away = away;
+        this.log(`[${room.code}] ${player.name} is ${away ? 'away' : 'back'}`);
+        this.broadcastPlayerList(room);
+
+        // The round may only have been waiting for this player
+        if (away) this.checkAllAnswered(room);
+    }
+
+    private deleteRoomIfEmpty(room: Room): void {
+        // Bots alone don't keep a room open
+        if (room.players.every(p => p.bot) && room.spectators.length === 0 && room.hosts.size === 0) {
+            this.clearRoundTimer(room);
+            this.clearGameTimers(room);
+            this.clearBotTimers(room);
+            [...room.players, ...room.spectators].forEach(p => this.clock.clearTimeout(p.disconnectTimer));
+            this.rooms.delete(room.code);
+            this.log(`Room closed: ${room.code}`);
+            this.emit('room-closed', room.code);
+        }
+    }
+
+    private broadcast(room: Room, message: ServerMessage): void {
+        room.hosts.forEach(host => host.send(message));
+        room.players.forEach(p => p.connection.send(message));
+        room.spectators.forEach(s => s.connection.send(message));
+    }
+
+    private broadcastPlayerList(room: Room): void {
+        this.broadcast(room, {
+            type: 'player-list',
+            players: this.getPlayerList(room),
+            spectators: this.getSpectatorList(room),
+            teams: room.teams
+        });
+    }
+
+    private getPlayerList(room: Room): LobbyPlayer[] {
+        const players: LobbyPlayer[] = room.players.map(p => ({
+            name: p.name,
+            isFirst: p.isFirst,
+            score: room.scores.get(p.name) || 0,
+            ...(room.teams && p.team !== null ? { team: p.team } : {}),
+            ...(p.bot ? { bot: p.bot.difficulty } : {}),
+            ...(p.waiting ? { waiting: true } : {}),
+            ...(p.away ? { away: true } : {})
+        }));
+
+        // The original players stay on the scoreboard of a challenge
+        if (room.challenge) {
+            getRecordedNames(room.challenge).forEach(name => {
+                players.push({ name, isFirst: false, score: room.scores.get(name) || 0, recorded: true });
+            });
+        }
+        return players;
+    }
+
+    /** Team totals, best first - undefined outside team mode */
+    private getTeamStandings(room: Room): TeamStanding[] | undefined {
+        if (!room.teams) return undefined;
+        return Array.from({ length: room.teams.count }, (_, team) => ({
+            team,
+            score: room.teamScores.get(team) || 0,
+            members: room.players.filter(p => p.team === team).map(p => p.name)
+        })).sort((a, b) => b.score - a.score);
+    }
+
+    /** Team with the fewest players, for auto-assignment */
+    private getSmallestTeam(room: Room): number {
+        const count = room.teams?.count ?? 0;
+        let smallest = 0;
+        for (let team = 1; team < count; team++) {
+            if (room.players.filter(p => p.team === team).length < room.players.filter(p => p.team === smallest).length) {
+                smallest = team;
+            }
+        }
+        return smallest;
+    }
+
+    private getSpectatorList(room: Room): string[] {
+        return room.spectators.map(s => s.name);
+    }
+
+    private getPackList(): QuestionPackInfo[] {
+        return this.packs.map(getPackInfo);
+    }
+
+    /** Look up a pack by id, falling back to the default */
+    private findPack(id: string | undefined): QuestionPack {
+        const pack = this.packs.find(p => p.id === id);
+        if (!pack && id !== undefined && id !== DEFAULT_PACK_ID) {
+            this.log(`Unknown question pack "${id}" - using the default`);
+        }
+        return pack ?? this.packs.find(p => p.id === DEFAULT_PACK_ID) ?? this.packs[0];
+    }
+
+    /**
+     * The room's pack, filtered as chosen in the lobby
+     * A region-restricted game stays in its region at any difficulty if it has to; only a pack
+     * with nothing there plays the whole world, and then the continent is dropped so clients don't frame it
+     */
+    private getQuestions(room: Room): Question[] {
+        const questions = filterQuestions(room.pack.questions, room.continent, room.difficulty);
+        if (questions.length > 0) return questions;
+
+        const inRegion = room.continent ? filterQuestions(room.pack.questions, room.continent, null) : [];
+        if (inRegion.length > 0) {
+            this.log(`[${room.code}] No ${room.pack.id} questions for continent ${room.continent} and difficulty ${room.difficulty} - using every difficulty`);
+            return inRegion;
+        }
+
+        this.log(`[${room.code}] No ${room.pack.id} questions for continent ${room.continent ?? 'any'} and difficulty ${room.difficulty ?? 'any'} - using the whole pack`);
+        room.continent = null;
+        return room.pack.questions;
+    }
+
+    /** Fisher-Yates shuffle, with the injected RNG by default */
+    private shuffle<T>(items: T[], random: () => number = this.random): T[] {
+        const shuffled = [...items];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    }
+
+    private getGamePhase(room: Room): GameState {
+        if (!room.gameStarted) return 'lobby';
+        if (room.finished) return 'results';
+        if (!room.currentQuestion) return 'question';
+        return room.revealed ? 'reveal' : 'answering';
+    }
+
+    /**
+     * Full game state for screens that (re)connect mid-game
+     */
+    private getStateSnapshot(room: Room): StateSnapshotMessage {
+        return {
+            type: 'state-snapshot',
+            state: this.getGamePhase(room),
+            round: room.currentRound,
+            maxRounds: room.maxRounds,
+            question: room.currentQuestion ? toPrompt(room.currentQuestion, room.hintsEnabled) : null,
+            answered: [...room.answers.keys()],
+            deadline: room.revealed ? null : room.deadline,
+            paused: room.paused,
+            serverTime: this.clock.now(),
+            players: this.getPlayerList(room),
+            teamStandings: this.getTeamStandings(room),
+            ...(room.continent ? { continent: room.continent } : {}),
+            ...(room.hintsEnabled ? { hints: true } : {}),
+            lastReveal: room.lastReveal
+        };
+    }
+
+    // ===== Rounds =====
+
+    private clearRoundTimer(room: Room): void {
+        this.clock.clearTimeout(room.roundTimer);
+        room.roundTimer = null;
+        room.deadline = null;
+        room.paused = false;
+        room.pausedRemainingMs = null;
+    }
+
+    /** Drop the pending first question and final results - a stale one would run into the next game */
+    private clearGameTimers(room: Room): void {
+        this.clock.clearTimeout(room.roundStartTimer);
+        this.clock.clearTimeout(room.finishTimer);
+        room.roundStartTimer = null;
+        room.finishTimer = null;
+    }
+
+    /** Reveal the round automatically after `ms` */
+    private startRoundTimer(room: Room, ms: number): void {
+        room.deadline = this.clock.now() + ms;
+        room.roundTimer = this.clock.setTimeout(() => {
+            this.log(`[${room.code}] Time is up for round ${room.currentRound}`);
+            this.revealRound(room);
+        }, ms);
+    }
+
+    private startNewRound(room: Room): void {
+        // The game may have been ended or reset while this round was scheduled
+        if (!room.gameStarted || room.finished) return;
+        if (room.deck.length === 0) {
+            this.log(`[${room.code}] Out of questions - ending the game`);
+            this.finishGame(room);
+            return;
+        }
+
+        room.answers.clear();
+        room.hints.clear();
+        room.revealed = false;
+        room.currentRound++;
+        this.seatWaitingPlayers(room);
+        const question = room.deck.pop()!;
+        room.currentQuestion = question;
+        room.questionAskedAt = this.clock.now();
+        room.pausedAt = null;
+        room.pausedMs = 0;
+        this.log(`[${room.code}] Round ${room.currentRound}/${room.maxRounds}: ${question.text}${question.country ? `, ${question.country}` : ''}`);
+
+        // The server owns the deadline - clients only render a countdown towards it
+        this.clearRoundTimer(room);
+        if (room.timeLimit > 0) {
+            this.startRoundTimer(room, room.timeLimit * 1000);
+        }
+
+        this.broadcast(room, {
+            type: 'question',
+            question: toPrompt(question, room.hintsEnabled),
+            round: room.currentRound,
+            maxRounds: room.maxRounds,
+            deadline: room.deadline,
+            serverTime: this.clock.now()
+        });
+        this.emit('round-started', room.code, room.currentRound, question);
+
+        this.clearBotTimers(room);
+        this.scheduleBotAnswers(room, question);
+    }
+
+    /** Late joiners play from this question on, starting on the room's catch-up score */
+    private seatWaitingPlayers(room: Room): void {
+        const waiting = room.players.filter(p => p.waiting);
+        if (waiting.length === 0) return;
+
+        const score = getCatchUpScore(room.catchUp, this.getActivePlayers(room).map(p => room.scores.get(p.name) || 0));
+        waiting.forEach(p => {
+            p.waiting = false;
+            room.scores.set(p.name, score);
+            this.log(`[${room.code}] ${p.name} joins in round ${room.currentRound} with ${score} points`);
+        });
+        this.broadcastPlayerList(room);
+    }
+
+    // ===== Bots =====
+
+    private clearBotTimers(room: Room): void {
+        room.botTimers.forEach(timer => this.clock.clearTimeout(timer));
+        room.botTimers = [];
+    }
+
+    /** Each bot answers after its think time, always before the deadline */
+    private scheduleBotAnswers(room: Room, question: Question): void {
+        this.getActivePlayers(room).filter(p => p.bot).forEach(bot => {
+            let delay = getBotThinkTime(bot.bot!, this.random);
+            if (room.deadline !== null) {
+                delay = Math.min(delay, room.deadline - this.clock.now() - BOT_DEADLINE_MARGIN_MS);
+            }
+            room.botTimers.push(this.clock.setTimeout(() => this.answerForBot(room, bot, question), Math.max(0, delay)));
+        });
+    }
+
+    private answerForBot(room: Room, bot: RoomPlayer, question: Question): void {
+        // The round may have moved on, or the bot been kicked, while it was thinking
+        if (room.currentQuestion !== question || room.revealed || !room.players.includes(bot)) return;
+        if (room.paused) {
+            room.botTimers.push(this.clock.setTimeout(() => this.answerForBot(room, bot, question), BOT_PAUSE_RETRY_MS));
+            return;
+        }
+
+        const answer = getBotAnswer(bot.bot!, question, this.random);
+        this.recordAnswer(room, bot.name, { ...answer, hints: [], answerTime: this.getAnswerTime(room, 0) });
+    }
+
+    private checkAllAnswered(room: Room): void {
+        const { answers } = room;
+        if (!room.gameStarted || !room.currentQuestion || room.revealed) return;
+        // Away players don't hold up the round - their answer still counts if it is in
+        const players = this.getActivePlayers(room).filter(p => !p.away);
+        if (players.length === 0) return;
+
+        const allAnswered = players.every(p => answers.has(p.name));
+        if (!allAnswered) return;
+
+        this.revealRound(room);
+    }
+
+    private revealRound(room: Room): void {
+        const { answers, scores, currentQuestion } = room;
+        if (!currentQuestion || room.revealed) return;
+        const players = this.getActivePlayers(room);
+        room.revealed = true;
+        this.clearRoundTimer(room);
+
+        // A challenger plays against the answers recorded for the same round
+        const recorded = room.challenge?.rounds[room.currentRound - 1]?.results ?? [];
+
+        // Players who ran out of time score nothing and have no pin to show
+        const missed: RoundResult[] = [
+            ...players.filter(p => !answers.has(p.name)).map(p => ({ name: p.name, hints: room.hints.get(p.name) ?? [] })),
+            ...recorded.filter(r => r.lat === null || r.lon === null).map(r => ({ name: r.name, hints: r.hints ?? [], recorded: true }))
+        ].map(p => ({
+            ...p,
+            distance: null,
+            lat: null,
+            lon: null,
+            missed: true,
+            points: 0,
+            totalScore: scores.get(p.name) || 0
+        }));
+
+        const { lat, lon } = currentQuestion.correctAnswer;
+        const isCountryQuestion = currentQuestion.mode === 'country' && !!currentQuestion.countryCode;
+        const correctCountry = currentQuestion.countryCode
+            ?? (currentQuestion.country ? getCountryCodeByName(currentQuestion.country) : null)
+            ?? getCountryCodeAt(lat, lon);
+        const measure = (pinLat: number, pinLon: number): ScoredAnswer => {
+            const inCorrectCountry = correctCountry !== null && getCountryCodeAt(pinLat, pinLon) === correctCountry;
+            // Country questions measure to the border, so every scoring model gives near misses partial credit
+            const distance = isCountryQuestion
+                ? (inCorrectCountry ? 0 : getDistanceToCountry(pinLat, pinLon, correctCountry!))
+                : calculateDistance(lat, lon, pinLat, pinLon);
+            return { distance, inCorrectCountry };
+        };
+        const pins: { name: string; lat: number; lon: number; positions?: RecordedPosition[]; hints: HintType[]; answerTime?: number; recorded?: boolean }[] = [
+            ...players.filter(p => answers.has(p.name)).map(p => ({ name: p.name, ...answers.get(p.name)! })),
+            ...recorded
+                .filter((r): r is RoundResult & { lat: number; lon: number } => r.lat !== null && r.lon !== null)
+                .map(r => ({ name: r.name, lat: r.lat, lon: r.lon, hints: r.hints ?? [], answerTime: r.answerTime, recorded: true }))
+        ];
+        const answered = pins.map(pin => ({ ...pin, ...measure(pin.lat, pin.lon) }));
+
+        // Sort by distance (closest first)
+        answered.sort((a, b) => a.distance - b.distance);
+
+        // Assign points with the model chosen at game start, minus what hints cost
+        const points = scoreAnswers(room.scoringModel, answered).map((p, i) => applyHintCost(p, answered[i].hints));
+
+        // Quick answers add to those points - the bonus runs out with the time limit, if there is one
+        const speedWindow = room.timeLimit > 0 ? room.timeLimit * 1000 : SPEED_BONUS_WINDOW_MS;
+        const bonuses = answered.map((r, i) =>
+            room.speedBonus && r.answerTime !== undefined ? calculateSpeedBonus(points[i], r.answerTime, speedWindow) : null
+        );
+
+        const results: RoundResult[] = answered.map((r, i) => {
+            const roundPoints = points[i] + (bonuses[i] ?? 0);
+            const totalScore = (scores.get(r.name) || 0) + roundPoints;
+            scores.set(r.name, totalScore);
+            return { ...r, points: roundPoints, totalScore, ...(bonuses[i] !== null ? { speedBonus: bonuses[i]! } : {}) };
+        });
+        results.push(...missed);
+
+        const teamResults = room.teams ? this.scoreTeams(room, answered, measure) : undefined;
+
+        this.log(`[${room.code}] Round revealed! Results:`, results);
+
+        room.lastReveal = {
+            correct: {
+                name: currentQuestion.text,
+                country: currentQuestion.country,
+                lat,
+                lon,
+                mode: currentQuestion.mode,
+                // City questions carry their country too, but only the target of a country question is highlighted
+                ...(isCountryQuestion ? { countryCode: currentQuestion.countryCode } : {})
+            },
+            results,
+            teamResults,
+            scoring: room.scoringModel,
+            round: room.currentRound,
+            maxRounds: room.maxRounds
+        };
+
+        room.rounds.push(room.lastReveal);
+
+        this.broadcast(room, {
+            type: 'reveal',
+            ...room.lastReveal,
+            players: this.getPlayerList(room),
+            teamStandings: this.getTeamStandings(room)
+        });
+        this.emit('round-revealed', room.code, room.lastReveal);
+
+        if (room.currentRound >= room.maxRounds) {
+            room.finishTimer = this.clock.setTimeout(() => {
+                room.finishTimer = null;
+                this.finishGame(room);
+            }, FINAL_RESULTS_DELAY_MS);
+        }
+    }
+
+    private finishGame(room: Room): void {
+        if (room.finished) return; // Already ended early
+        this.log(`[${room.code}] Game finished! Sending final results...`);
+        room.finished = true;
+        const players = this.getPlayerList(room);
+        const teamStandings = this.getTeamStandings(room);
+        // A game ended before any round was revealed has nothing worth replaying, so it isn't stored
+        if (room.rounds.length === 0) {
+            this.broadcast(room, { type: 'final-results', players, teamStandings });
+            return;
+        }
+
+        const gameId = randomUUID();
+        this.broadcast(room, { type: 'final-results', players, teamStandings, gameId });
+        this.emit('game-finished', {
+            id: gameId,
+            code: room.code,
+            startedAt: room.startedAt,
+            finishedAt: this.clock.now(),
+            scoring: room.scoringModel,
+            pack: getPackInfo(room.pack),
+            rounds: room.rounds,
+            players: [...players].sort((a, b) => b.score - a.score),
+            teamStandings
+        });
+    }
+
+    /**
+     * Combine each team's pins into one answer and score the teams against each other
+     * @param answered Players who answered, closest first
+     * @param measure Distance of a pin from this round's answer
+     */
+    private scoreTeams(
+        room: Room,
+        answered: (ScoredAnswer & { name: string; lat: number; lon: number })[],
+        measure: (lat: number, lon: number) => ScoredAnswer
+    ): TeamRoundResult[] {
+        const { count, scoring } = room.teams!;
+        const teamOf = (name: string) => room.players.find(p => p.name === name)?.team ?? null;
+
+        const combined: { team: number; answer: ScoredAnswer | null }[] = [];
+        for (let team = 0; team < count; team++) {
+            const members = answered.filter(a => teamOf(a.name) === team);
+            if (members.length === 0) {
+                combined.push({ team, answer: null });
+            } else if (scoring === 'best') {
+                combined.push({ team, answer: members[0] });
+            } else if (scoring === 'average') {
+                combined.push({
+                    team,
+                    answer: {
+                        distance: members.reduce((sum, m) => sum + m.distance, 0) / members.length,
+                        inCorrectCountry: members.every(m => m.inCorrectCountry)
+                    }
+                });
+            } else {
+                const center = calculateCentroid(members);
+                combined.push({ team, answer: measure(center.lat, center.lon) });
+            }
+        }
+
+        // Teams with no answers score nothing, like players who miss the deadline
+        const scored = combined
+            .filter((c): c is { team: number; answer: ScoredAnswer } => c.answer !== null)
+            .sort((a, b) => a.answer.distance - b.answer.distance);
+        const points = scoreAnswers(room.scoringModel, scored.map(c => c.answer));
+
+        const results: TeamRoundResult[] = scored.map((c, i) => ({
+            team: c.team,
+            distance: Math.round(c.answer.distance),
+            points: points[i],
+            totalScore: 0
+        }));
+        combined.filter(c => c.answer === null).forEach(c => results.push({ team: c.team, distance: null, points: 0, totalScore: 0 }));
+
+        results.forEach(r => {
+            r.totalScore = (room.teamScores.get(r.team) || 0) + r.points;
+            room.teamScores.set(r.team, r.totalScore);
+        });
+        return results;
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Game History
+ *
+ * Every finished game is appended to a JSONL file (one GameRecord per line)
+ * so it can be listed and replayed on the host page later.
+ */
+
+import { appendFileSync, readFileSync } from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { GameRecord, GameSummary } from '../shared/types';
+
+export const HISTORY_FILE = process.env.GAME_HISTORY_FILE || 'game-history.jsonl';
+
+export class GameHistory {
+    constructor(private file: string = HISTORY_FILE) {}
+
+    append(record: GameRecord): void {
+        appendFileSync(this.file, JSON.stringify(record) + '\n');
+    }
+
+    /**
+     * All stored games, newest first
+     * Lines that fail to parse (e.g. a write cut short by a crash) are skipped
+     */
+    list(): GameSummary[] {
+        return this.readAll()
+            .map(record => ({
+                id: record.id,
+                code: record.code,
+                startedAt: record.startedAt,
+                finishedAt: record.finishedAt,
+                packName: record.pack.name,
+                roundCount: record.rounds.length,
+                players: record.players
+            }))
+            .reverse();
+    }
+
+    get(id: string): GameRecord | null {
+        return this.readAll().find(record => record.id === id) ?? null;
+    }
+
+    private readAll(): GameRecord[] {
+        let content: string;
+        try {
+            content = readFileSync(this.file, 'utf-8');
+        } catch {
+            return []; // No games finished yet
+        }
+
+        const records: GameRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // Skip the damaged line, keep the rest
+            }
+        }
+        return records;
+    }
+}
+
+/**
+ * Serve /api/games and /api/games/:id from a plain Node http server
+ * Used by the dev server, where there's no Express app
+ * @returns Whether the request was handled
+ */
+export function handleHistoryRequest(history: GameHistory, req: IncomingMessage, res: ServerResponse): boolean {
+    const path = (req.url ?? '').split('?')[0];
+    const match = path.match(/^\/api\/games(?:\/([^/]+))?\/?$/);
+    if (req.method !== 'GET' || !match) return false;
+
+    // The host page is served by Vite on another port
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Content-Type', 'application/json');
+
+    if (!match[1]) {
+        res.end(JSON.stringify(history.list()));
+        return true;
+    }
+
+    let id: string;
+    try {
+        id = decodeURIComponent(match[1]);
+    } catch {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'Invalid game id' }));
+        return true;
+    }
+
+    const record = history.get(id);
+    if (!record) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: 'Game not found' }));
+        return true;
+    }
+    res.end(JSON.stringify(record));
+    return true;
+}
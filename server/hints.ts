@@ -0,0 +1,32 @@
+/**
+ * Hint Texts
+ *
+ * What each hint reveals about a question. Costs live in shared/hints.ts so
+ * clients can show them on the hint buttons.
+ */
+
+import { getCountryCodeAt, getCountryName } from './countries';
+import { REGION_LABELS, getRegion } from '../shared/geo';
+import type { HintType } from '../shared/hints';
+import type { Question } from '../shared/types';
+
+/**
+ * @returns The hint for this question, or null if it doesn't have one
+ */
+export function getHintText(hint: HintType, question: Question): string | null {
+    const { lat, lon } = question.correctAnswer;
+
+    switch (hint) {
+        case 'hemisphere':
+            return `${lat >= 0 ? 'Northern' : 'Southern'} and ${lon >= 0 ? 'Eastern' : 'Western'} hemisphere`;
+        case 'continent':
+            return `Somewhere in ${REGION_LABELS[getRegion(lat, lon)]}`;
+        case 'country': {
+            // A country question names its country already
+            if (question.mode === 'country') return null;
+            const code = getCountryCodeAt(lat, lon);
+            const country = question.country ?? (code ? getCountryName(code) : null);
+            return country ? `In ${country}` : null;
+        }
+    }
+}
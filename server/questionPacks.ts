@@ -0,0 +1,253 @@
+/**
+ * Question Packs
+ *
+ * Loads sets of questions from JSON and CSV files in packs/. The built-in
+ * city list (enriched by scripts/enrich-cities.ts) is always available as the
+ * default pack, along with a "Which country?" pack generated from the country polygons.
+ *
+ * JSON: { "name": "...", "description": "...", "questions": [Question, ...] }
+ * CSV:  header row with text,lat,lon and optionally id,category,imageUrl,country,fame,continent,difficulty
+ *
+ * The pack id is the file name without its extension.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { extname, basename, join } from 'path';
+import { getCountryList } from './countries';
+import type { EnrichedCity } from './cities';
+import { isQuestionDifficulty } from '../shared/difficulty';
+import { isRegion } from '../shared/geo';
+import type { Question, QuestionPackInfo } from '../shared/types';
+
+export interface QuestionPack {
+    id: string;
+    name: string;
+    description?: string;
+    questions: Question[];
+}
+
+export const PACKS_DIR = new URL('../packs/', import.meta.url); // Trailing slash so files resolve inside it
+
+export const DEFAULT_PACK_ID = 'world-cities';
+
+const CITIES_FILE = new URL('./cities-enriched.json', import.meta.url);
+const cities: EnrichedCity[] = JSON.parse(readFileSync(CITIES_FILE, 'utf-8'));
+
+// Easy cities are the world-famous ones - bots find these more easily than the rest of the list
+const WORLD_FAMOUS_FAME = 0.9;
+
+export const WORLD_CITIES_PACK: QuestionPack = {
+    id: DEFAULT_PACK_ID,
+    name: 'World Cities',
+    description: 'Famous cities and landmarks around the world',
+    questions: cities.map((city, index) => ({
+        id: `${DEFAULT_PACK_ID}-${index + 1}`,
+        text: city.name,
+        country: city.country,
+        correctAnswer: { lat: city.lat, lon: city.lon },
+        ...(city.iso2 ? { countryCode: city.iso2 } : {}),
+        ...(city.population !== undefined ? { population: city.population } : {}),
+        continent: city.continent,
+        difficulty: city.difficulty,
+        ...(city.difficulty === 'easy' ? { fame: WORLD_FAMOUS_FAME } : {})
+    }))
+};
+
+export const COUNTRIES_PACK: QuestionPack = {
+    id: 'countries',
+    name: 'Which Country?',
+    description: 'Click inside the named country - near misses get partial credit',
+    questions: getCountryList().map(country => ({
+        id: `countries-${country.iso2}`,
+        text: country.name,
+        correctAnswer: country.center,
+        mode: 'country',
+        countryCode: country.iso2,
+        continent: country.region
+    }))
+};
+
+export function getPackInfo(pack: QuestionPack): QuestionPackInfo {
+    return {
+        id: pack.id,
+        name: pack.name,
+        description: pack.description,
+        questionCount: pack.questions.length
+    };
+}
+
+type Warn = (message: string) => void;
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/** A number from 0 to 1, or undefined if missing or out of range */
+const optionalFraction = (value: unknown): number | undefined => {
+    if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 && number <= 1 ? number : undefined;
+};
+
+/**
+ * Check one question from a pack file
+ * @returns The cleaned up question, or null if it can't be asked
+ */
+function toQuestion(raw: Record<string, unknown>, fallbackId: string, warn: Warn): Question | null {
+    const text = optionalString(raw.text);
+    const answer = raw.correctAnswer as { lat?: unknown; lon?: unknown } | undefined;
+    const lat = Number(answer?.lat);
+    const lon = Number(answer?.lon);
+
+    if (!text) {
+        warn(`Skipping question ${fallbackId}: missing text`);
+        return null;
+    }
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+        warn(`Skipping question ${fallbackId} (${text}): invalid correctAnswer`);
+        return null;
+    }
+
+    return {
+        id: optionalString(raw.id) ?? fallbackId,
+        text,
+        correctAnswer: { lat, lon },
+        category: optionalString(raw.category),
+        imageUrl: optionalString(raw.imageUrl),
+        country: optionalString(raw.country),
+        fame: optionalFraction(raw.fame),
+        continent: isRegion(raw.continent) ? raw.continent : undefined,
+        difficulty: isQuestionDifficulty(raw.difficulty) ? raw.difficulty : undefined
+    };
+}
+
+function titleFromId(id: string): string {
+    return id.split(/[-_\s]+/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export function parseJsonPack(id: string, content: string, warn: Warn = console.warn): QuestionPack {
+    const data = JSON.parse(content);
+    if (!data || !Array.isArray(data.questions)) {
+        throw new Error('expected an object with a "questions" array');
+    }
+
+    const questions = (data.questions as Record<string, unknown>[])
+        .map((raw, index) => toQuestion(raw ?? {}, `${id}-${index + 1}`, warn))
+        .filter((q): q is Question => q !== null);
+
+    return {
+        id,
+        name: optionalString(data.name) ?? titleFromId(id),
+        description: optionalString(data.description),
+        questions
+    };
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields containing commas, newlines and "" escapes
+ */
+function parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+export function parseCsvPack(id: string, content: string, warn: Warn = console.warn): QuestionPack {
+    const [header, ...rows] = parseCsvRows(content);
+    const columns = (header ?? []).map(name => name.trim());
+    if (!columns.includes('text') || !columns.includes('lat') || !columns.includes('lon')) {
+        throw new Error('header must include text, lat and lon columns');
+    }
+
+    const questions = rows
+        .map((fields, index) => {
+            const raw: Record<string, unknown> = {};
+            columns.forEach((column, i) => raw[column] = fields[i]);
+            raw.correctAnswer = { lat: raw.lat, lon: raw.lon };
+            return toQuestion(raw, `${id}-${index + 1}`, warn);
+        })
+        .filter((q): q is Question => q !== null);
+
+    return { id, name: titleFromId(id), questions };
+}
+
+/**
+ * Load every pack in a directory, after the built-in packs
+ * Files that fail to parse are skipped with a warning
+ */
+export function loadQuestionPacks(dir: URL | string = PACKS_DIR, warn: Warn = console.warn): QuestionPack[] {
+    const packs: QuestionPack[] = [WORLD_CITIES_PACK, COUNTRIES_PACK];
+
+    let files: string[];
+    try {
+        files = readdirSync(dir).sort();
+    } catch {
+        warn(`No question pack directory at ${dir}`);
+        return packs;
+    }
+
+    for (const file of files) {
+        const extension = extname(file).toLowerCase();
+        if (extension !== '.json' && extension !== '.csv') continue;
+
+        const id = basename(file, extname(file));
+        if (packs.some(p => p.id === id)) {
+            warn(`Skipping question pack ${file}: duplicate id "${id}"`);
+            continue;
+        }
+
+        try {
+            const path = typeof dir === 'string' ? join(dir, file) : new URL(file, dir);
+            const content = readFileSync(path, 'utf-8');
+            const pack = extension === '.json'
+                ? parseJsonPack(id, content, warn)
+                : parseCsvPack(id, content, warn);
+
+            if (pack.questions.length === 0) {
+                warn(`Skipping question pack ${file}: no valid questions`);
+                continue;
+            }
+            packs.push(pack);
+        } catch (err) {
+            warn(`Skipping question pack ${file}: ${(err as Error).message}`);
+        }
+    }
+
+    return packs;
+}
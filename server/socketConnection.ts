@@ -0,0 +1,100 @@
+/**
+ * WebSocket wiring for the GameEngine
+ * Shared by the dev and production servers
+ */
+
+import type { GameEngine, Connection } from './gameEngine';
+
+const OPEN = 1; // WebSocket.OPEN
+
+/**
+ * `maxPayload` for the WebSocketServer - ws closes sockets that send bigger frames
+ * before buffering them. Smaller oversized messages get an error from the engine.
+ */
+export const MAX_SOCKET_PAYLOAD = 1024 * 1024;
+
+/**
+ * Heartbeat pacing - phones that lock their screen can leave a socket half open,
+ * so every socket is pinged and must answer with a pong
+ * The time to the pong is the connection's round trip, which the engine takes off answer times
+ */
+export const HEARTBEAT_INTERVAL_MS = 5000;
+export const AWAY_AFTER_MISSED_BEATS = 2;      // Player shows as away, and no longer holds up the round
+export const CLOSE_AFTER_MISSED_BEATS = 6;     // Socket is dropped - the engine still holds the seat for a while
+
+/** The parts of a `ws` WebSocket the engine needs */
+export interface EngineSocket {
+    readyState: number;
+    send(data: string): void;
+    ping(): void;
+    terminate(): void;
+    on(event: 'message', listener: (data: { toString(): string }) => void): void;
+    on(event: 'pong', listener: () => void): void;
+    on(event: 'close', listener: () => void): void;
+}
+
+/** The parts of a `ws` WebSocketServer the heartbeat needs */
+export interface HeartbeatServer {
+    clients: Set<EngineSocket>;
+    on(event: 'close', listener: () => void): void;
+}
+
+interface Heartbeat {
+    connection: Connection;
+    missed: number;     // Pings sent since the last pong
+    pingSentAt: number | null;  // Epoch ms of the last ping, for timing the round trip
+}
+
+// Attached sockets -> their heartbeat state
+const heartbeats = new WeakMap<EngineSocket, Heartbeat>();
+
+/**
+ * Route a newly connected socket through the engine until it closes
+ */
+export function attachSocket(engine: GameEngine, ws: EngineSocket): void {
+    const connection: Connection = {
+        send(message) {
+            if (ws.readyState === OPEN) {
+                ws.send(JSON.stringify(message));
+            }
+        }
+    };
+    const beat: Heartbeat = { connection, missed: 0, pingSentAt: null };
+    heartbeats.set(ws, beat);
+
+    engine.connect(connection);
+    ws.on('message', (data) => engine.handleMessage(connection, data.toString()));
+    ws.on('pong', () => {
+        if (beat.missed > AWAY_AFTER_MISSED_BEATS) engine.setAway(connection, false);
+        // Only the latest ping times cleanly - a pong after missed beats may answer an older one
+        if (beat.missed === 1 && beat.pingSentAt !== null) engine.setRoundTrip(connection, Date.now() - beat.pingSentAt);
+        beat.missed = 0;
+    });
+    ws.on('close', () => engine.disconnect(connection));
+}
+
+/**
+ * Ping every attached socket on the server, marking players away and dropping
+ * sockets that stop answering
+ */
+export function startHeartbeat(engine: GameEngine, wss: HeartbeatServer): void {
+    const interval = setInterval(() => {
+        wss.clients.forEach(ws => {
+            const beat = heartbeats.get(ws);
+            if (!beat) return;
+
+            if (beat.missed >= CLOSE_AFTER_MISSED_BEATS) {
+                ws.terminate(); // Fires close, so the engine starts the reconnect grace period
+                return;
+            }
+            if (beat.missed === AWAY_AFTER_MISSED_BEATS) {
+                engine.setAway(beat.connection, true);
+            }
+            beat.missed++;
+            beat.pingSentAt = Date.now();
+            ws.ping();
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    wss.on('close', () => clearInterval(interval));
+}
@@ -0,0 +1,33 @@
+/**
+ * Bot Opponents
+ * Difficulty levels for the computer players the game server can seat,
+ * shared by server and clients
+ */
+
+export type BotDifficulty = 'easy' | 'medium' | 'expert';
+
+export interface BotDifficultyDefinition {
+    label: string;
+    description: string;
+}
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, BotDifficultyDefinition> = {
+    easy: {
+        label: 'Easy',
+        description: 'Usually lands on the right continent'
+    },
+    medium: {
+        label: 'Medium',
+        description: 'Knows the famous places, guesses the rest'
+    },
+    expert: {
+        label: 'Expert',
+        description: 'Rarely more than a few hundred km off'
+    }
+};
+
+export const MAX_BOTS_PER_ROOM = 8;
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BOT_DIFFICULTIES, value);
+}
@@ -0,0 +1,53 @@
+/**
+ * Daily Challenge
+ * Everyone who plays the same seed gets the same five cities. The seed is
+ * the UTC date unless a player enters their own.
+ */
+
+import { getDistanceEmoji } from './scoring';
+
+export const DAILY_ROUNDS = 5;
+export const MAX_SEED_LENGTH = 32;
+
+/** Today's seed, e.g. "2026-10-19" */
+export function getDailySeed(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/** Trimmed seed, or null if nothing usable was entered */
+export function normalizeSeed(seed: unknown): string | null {
+    if (typeof seed !== 'string') return null;
+    const trimmed = seed.trim().slice(0, MAX_SEED_LENGTH);
+    return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Deterministic RNG for a seed string, returning [0, 1) like Math.random
+ * FNV-1a hash of the seed feeding mulberry32
+ */
+export function createSeededRandom(seed: string): () => number {
+    let state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+    }
+
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Shareable result, one emoji per round:
+ *
+ *   JordGlobe Daily 2026-10-19
+ *   🎯🟩🟨🟧⬛ 3120 pts
+ *
+ * @param distances The player's distance each round in km, null for a missed round
+ */
+export function formatDailySummary(seed: string, distances: (number | null)[], score: number): string {
+    const rounds = distances.map(distance => distance === null ? '⬜' : getDistanceEmoji(distance)).join('');
+    return `JordGlobe Daily ${seed}\n${rounds} ${score} pts`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Question Difficulty
+ * How hard a question is to place, shared by server and clients -
+ * the lobby can limit a game to one tier
+ */
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuestionDifficultyDefinition {
+    label: string;
+    description: string;
+}
+
+export const QUESTION_DIFFICULTIES: Record<QuestionDifficulty, QuestionDifficultyDefinition> = {
+    easy: {
+        label: 'Easy',
+        description: 'World-famous places'
+    },
+    medium: {
+        label: 'Medium',
+        description: 'Big cities, landmarks and islands'
+    },
+    hard: {
+        label: 'Hard',
+        description: 'Smaller cities and towns'
+    }
+};
+
+export function isQuestionDifficulty(value: unknown): value is QuestionDifficulty {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(QUESTION_DIFFICULTIES, value);
+}
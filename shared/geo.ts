@@ -1,9 +1,9 @@
 /**
  * Geographic Utilities
- * Distance calculations using Haversine formula
+ * Distance calculations using Haversine formula, and coarse continents
  */
 
-const EARTH_RADIUS_KM = 6371; // Earth's radius in kilometers
+export const EARTH_RADIUS_KM = 6371; // Earth's radius in kilometers
 
 /**
  * Calculate great circle distance between two points on Earth
@@ -99,3 +99,104 @@ export function calculateGeodesicPoints(
 
     return points;
 }
+
+/**
+ * Geographic center of a set of points
+ * Walks the great circle from the running center towards each point in turn,
+ * 1/n of the way for the n-th point, so every point pulls equally
+ *
+ * @param points Points in degrees - must not be empty
+ * @returns Center lat/lon in degrees
+ */
+export function calculateCentroid(points: { lat: number; lon: number }[]): { lat: number; lon: number } {
+    let center = points[0];
+
+    for (let i = 1; i < points.length; i++) {
+        const point = points[i];
+        // The geodesic is undefined for identical points - nothing to move anyway
+        if (calculateDistance(center.lat, center.lon, point.lat, point.lon) < 0.001) continue;
+
+        // A path of i + 2 points puts its second point 1/(i + 1) of the way along
+        const next = calculateGeodesicPoints(center.lat, center.lon, point.lat, point.lon, i + 2)[1];
+        if (Number.isFinite(next.lat) && Number.isFinite(next.lon)) {
+            center = next;
+        }
+    }
+
+    return center;
+}
+
+// ===== Continents =====
+
+export type Region = 'europe' | 'africa' | 'asia' | 'north-america' | 'south-america' | 'oceania';
+
+export const REGION_LABELS: Record<Region, string> = {
+    'europe': 'Europe',
+    'africa': 'Africa',
+    'asia': 'Asia',
+    'north-america': 'North America',
+    'south-america': 'South America',
+    'oceania': 'Oceania'
+};
+
+// Continent names used in countries-enriched.json
+const CONTINENT_REGIONS: Record<string, Region> = {
+    'Europe': 'europe',
+    'Africa': 'africa',
+    'Asia': 'asia',
+    'North America': 'north-america',
+    'South America': 'south-america',
+    'Oceania': 'oceania'
+};
+
+export function isRegion(value: unknown): value is Region {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REGION_LABELS, value);
+}
+
+/**
+ * @param continent Continent as named in the country dataset
+ * @returns The matching region, or null for territories without one (and Antarctica)
+ */
+export function getRegionOfContinent(continent: string | undefined): Region | null {
+    return (continent && CONTINENT_REGIONS[continent]) || null;
+}
+
+/**
+ * Coarse continent for a point - boxes, not borders, so places near a
+ * continent's edge can land on the wrong side
+ */
+export function getRegion(lat: number, lon: number): Region {
+    if (lon < -120 && lat < 12) return 'oceania'; // Pacific islands east of the date line
+    if (lon < -30) return lat >= 12 ? 'north-america' : 'south-america';
+    if (lat < -10 && lon >= 110) return 'oceania';
+    if (lon < 60) {
+        if (lat >= 36 && lon < 45) return 'europe';
+        if (lat < 36 && (lon < 33 || lat < 12)) return 'africa';
+    }
+    return 'asia'; // Includes the Middle East and Russia east of the Urals
+}
+
+export interface RegionBounds {
+    minLat: number;
+    maxLat: number;
+    minLon: number;
+    maxLon: number;
+}
+
+/**
+ * Box around each continent's main landmass, framed by the camera in
+ * region-restricted games - outlying islands such as Tahiti fall outside
+ */
+export const REGION_BOUNDS: Record<Region, RegionBounds> = {
+    'europe': { minLat: 34, maxLat: 72, minLon: -25, maxLon: 45 },
+    'africa': { minLat: -35, maxLat: 38, minLon: -18, maxLon: 52 },
+    'asia': { minLat: -11, maxLat: 78, minLon: 25, maxLon: 180 },
+    'north-america': { minLat: 7, maxLat: 84, minLon: -170, maxLon: -12 },
+    'south-america': { minLat: -56, maxLat: 13, minLon: -82, maxLon: -34 },
+    'oceania': { minLat: -48, maxLat: 0, minLon: 110, maxLon: 180 }
+};
+
+export function isInRegionBounds(lat: number, lon: number, region: Region): boolean {
+    const { minLat, maxLat, minLon, maxLon } = REGION_BOUNDS[region];
+    return lat >= minLat && lat <= maxLat && lon >= minLon && lon <= maxLon;
+}
@@ -0,0 +1,50 @@
+/**
+ * Hints
+ * Clues a player can ask for while answering, shared by server and clients.
+ * Every hint taken lowers the most the player can score that round.
+ */
+
+export type HintType = 'hemisphere' | 'continent' | 'country';
+
+export interface HintDefinition {
+    label: string;
+    icon: string;
+    cost: number;   // Share of the round's points given up, 0-1
+}
+
+export const HINTS: Record<HintType, HintDefinition> = {
+    hemisphere: {
+        label: 'Hemisphere',
+        icon: '🧭',
+        cost: 0.1
+    },
+    continent: {
+        label: 'Continent',
+        icon: '🗺️',
+        cost: 0.25
+    },
+    country: {
+        label: 'Country',
+        icon: '🏳️',
+        cost: 0.5
+    }
+};
+
+export function isHintType(value: unknown): value is HintType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HINTS, value);
+}
+
+/**
+ * Points left after the hints a player took - hints add up, down to nothing
+ */
+export function applyHintCost(points: number, hints: HintType[]): number {
+    const cost = hints.reduce((sum, hint) => sum + HINTS[hint].cost, 0);
+    return Math.round(points * Math.max(0, 1 - cost));
+}
+
+/**
+ * Icons for the hints behind a result, with a leading space - empty if none
+ */
+export function formatHintIcons(hints: HintType[] | undefined): string {
+    return hints && hints.length > 0 ? ` ${hints.map(hint => HINTS[hint].icon).join('')}` : '';
+}
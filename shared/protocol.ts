@@ -0,0 +1,479 @@
+/**
+ * WebSocket Protocol
+ * Every message exchanged between the game server, the host screen and party clients
+ *
+ * Bump PROTOCOL_VERSION whenever a message shape changes in a way older
+ * clients can't handle - the server rejects handshakes from other versions.
+ */
+
+import type { GameStateData, LobbyPlayer, QuestionPackInfo, QuestionPrompt, RevealData, TeamSettings, TeamStanding } from './types';
+import { isCatchUpScore, isScoringModel, type CatchUpScore, type ScoringModel } from './scoring';
+import { isTeamScoring, type TeamScoring } from './teams';
+import { isBotDifficulty, type BotDifficulty } from './bots';
+import { isHintType, type HintType } from './hints';
+import { isReaction, type Reaction } from './reactions';
+import { isQuestionDifficulty, type QuestionDifficulty } from './difficulty';
+import { isRegion, type Region } from './geo';
+
+export const PROTOCOL_VERSION = 2;
+
+// Caps on what a client may send - the pin recorder stops at MAX_RECORDED_POSITIONS
+export const MAX_RECORDED_POSITIONS = 100;
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export interface RecordedPosition {
+    lat: number;
+    lon: number;
+    timestamp: number;
+}
+
+// ===== Client → Server =====
+
+export interface HostConnectMessage {
+    type: 'host-connect';
+    protocolVersion: number;
+    host?: string;          // Hostname the host page was loaded from, used for the join URL
+    code?: string | null;   // Room to rejoin after a reconnect
+    hostToken?: string | null;  // From host-info - proves this screen hosted the room before
+}
+
+export interface JoinMessage {
+    type: 'join';
+    protocolVersion: number;
+    name: string;
+    code: string;
+    spectator?: boolean;    // Watch without playing
+}
+
+export interface ResumeMessage {
+    type: 'resume';
+    protocolVersion: number;
+    token: string;
+}
+
+/** Play the daily challenge alone in a private room */
+export interface StartDailyMessage {
+    type: 'start-daily';
+    protocolVersion: number;
+    name: string;
+    seed?: string;          // Defaults to today's date
+}
+
+/** Play a finished game's questions alone, against its recorded answers */
+export interface StartChallengeMessage {
+    type: 'start-challenge';
+    protocolVersion: number;
+    name: string;
+    gameId: string;         // Id of the game in the server's game history
+}
+
+export interface StartGameMessage {
+    type: 'start-game';
+    maxRounds?: number;
+    timeLimit?: number;     // Seconds per round, 0 = no limit
+    scoring?: ScoringModel;
+    pack?: string;          // Question pack id
+    catchUp?: CatchUpScore; // Starting score of players who join mid-game
+    continent?: Region;     // Only ask questions on this continent
+    difficulty?: QuestionDifficulty;  // Only ask questions of this tier - packs without tiers ignore it
+    speedBonus?: boolean;   // Quick answers earn extra points
+    hints?: boolean;        // Players may take hints - location prompts then leave out the country
+}
+
+/** Ask for a clue to the current question - costs points this round */
+export interface RequestHintMessage {
+    type: 'request-hint';
+    hint: HintType;
+}
+
+/** An emoji reaction to the round results, shown on host screens */
+export interface SendReactionMessage {
+    type: 'reaction';
+    emoji: Reaction;
+}
+
+export interface SubmitAnswerMessage {
+    type: 'submit-answer';
+    lat: number;
+    lon: number;
+    positions?: RecordedPosition[];
+}
+
+export interface NextRoundMessage {
+    type: 'next-round';
+}
+
+export interface ResetGameMessage {
+    type: 'reset-game';
+}
+
+/** Start a new game once the last one has finished, keeping players, teams and settings */
+export interface PlayAgainMessage {
+    type: 'play-again';
+}
+
+/** Party host turns team mode on (2+ teams) or off (0) in the lobby */
+export interface SetTeamsMessage {
+    type: 'set-teams';
+    teamCount: number;
+    teamScoring?: TeamScoring;
+}
+
+export interface ChooseTeamMessage {
+    type: 'choose-team';
+    team: number;
+}
+
+// Moderation - only accepted from host screens and the party host
+
+export interface KickPlayerMessage {
+    type: 'kick-player';
+    name: string;           // Player or spectator to remove
+}
+
+export interface PauseRoundMessage {
+    type: 'pause-round';
+}
+
+export interface ResumeRoundMessage {
+    type: 'resume-round';
+}
+
+/** Replace the current question without scoring it */
+export interface SkipQuestionMessage {
+    type: 'skip-question';
+}
+
+/** Finish the game now and show final results */
+export interface EndGameMessage {
+    type: 'end-game';
+}
+
+/** Seat a computer player - removed again with kick-player */
+export interface AddBotMessage {
+    type: 'add-bot';
+    difficulty: BotDifficulty;
+}
+
+export type ClientMessage =
+    | HostConnectMessage
+    | JoinMessage
+    | ResumeMessage
+    | StartDailyMessage
+    | StartChallengeMessage
+    | StartGameMessage
+    | RequestHintMessage
+    | SendReactionMessage
+    | SubmitAnswerMessage
+    | NextRoundMessage
+    | ResetGameMessage
+    | PlayAgainMessage
+    | SetTeamsMessage
+    | ChooseTeamMessage
+    | KickPlayerMessage
+    | PauseRoundMessage
+    | ResumeRoundMessage
+    | SkipQuestionMessage
+    | EndGameMessage
+    | AddBotMessage;
+
+/** Messages that open a session and must carry the protocol version */
+export type HandshakeMessage = HostConnectMessage | JoinMessage | ResumeMessage | StartDailyMessage | StartChallengeMessage;
+
+// ===== Server → Client =====
+
+export interface HostInfoMessage {
+    type: 'host-info';
+    code: string;
+    hostToken: string;      // Secret the host screen sends back to reconnect to this room
+    players: LobbyPlayer[];
+    spectators: string[];   // Names of people watching without playing
+    joinUrl?: string;       // Production server
+    localIP?: string;       // Dev server - host builds the URL from these
+    webPort?: number;
+}
+
+export interface JoinedMessage {
+    type: 'joined';
+    name: string;
+    code: string;
+    token: string;          // Resume token for reconnecting
+    isFirst: boolean;
+    spectator?: boolean;
+    resumed?: boolean;
+    players: LobbyPlayer[];
+    packs: QuestionPackInfo[];  // Packs the party host can choose from
+}
+
+export interface ResumeFailedMessage {
+    type: 'resume-failed';
+}
+
+export interface PlayerListMessage {
+    type: 'player-list';
+    players: LobbyPlayer[];
+    spectators: string[];
+    teams: TeamSettings | null;
+}
+
+export interface GameStartMessage {
+    type: 'game-start';
+    maxRounds: number;
+    timeLimit: number;
+    scoring: ScoringModel;
+    pack: QuestionPackInfo;
+    teams: TeamSettings | null;
+    continent?: Region;     // Set when the questions are limited to one continent
+    difficulty?: QuestionDifficulty;
+    speedBonus?: boolean;   // Set when quick answers earn extra points
+    hints?: boolean;        // Set when players may take hints
+    daily?: string;         // Seed, when this is a daily challenge
+    challenge?: string;     // Game id, when replaying a recorded game as a challenge
+}
+
+export type StateSnapshotMessage = { type: 'state-snapshot' } & GameStateData;
+
+export interface QuestionMessage {
+    type: 'question';
+    question: QuestionPrompt;
+    round: number;
+    maxRounds: number;
+    deadline: number | null;
+    serverTime: number;
+}
+
+export interface PlayerAnsweredMessage {
+    type: 'player-answered';
+    playerName: string;
+}
+
+export type RevealMessage = { type: 'reveal'; players: LobbyPlayer[]; teamStandings?: TeamStanding[] } & RevealData;
+
+export interface FinalResultsMessage {
+    type: 'final-results';
+    players: LobbyPlayer[];
+    teamStandings?: TeamStanding[];   // Team mode only, best first
+    gameId?: string;                  // Id in the game history - shared as a challenge link, none if no round was played
+}
+
+export interface GameResetMessage {
+    type: 'game-reset';
+}
+
+/** Sent to a player just before they're removed from the party */
+export interface KickedMessage {
+    type: 'kicked';
+    message: string;
+}
+
+/** Sent to host screens only - a submitted answer looks implausible */
+export interface AnswerFlaggedMessage {
+    type: 'answer-flagged';
+    playerName: string;
+    round: number;
+    reasons: string[];
+}
+
+/** Sent to the player who asked for it */
+export interface HintMessage {
+    type: 'hint';
+    hint: HintType;
+    text: string;           // e.g. "Northern and Eastern hemisphere"
+}
+
+/** Sent to host screens only */
+export interface ReactionMessage {
+    type: 'reaction';
+    playerName: string;
+    emoji: Reaction;
+}
+
+export interface RoundPausedMessage {
+    type: 'round-paused';
+}
+
+export interface RoundResumedMessage {
+    type: 'round-resumed';
+    deadline: number | null;    // New deadline with the paused time added back
+    serverTime: number;
+}
+
+export type ErrorCode =
+    | 'protocol-mismatch'
+    | 'invalid-message'
+    | 'room-not-found'
+    | 'name-taken'
+    | 'game-not-found'
+    | 'not-allowed';
+
+export interface ErrorMessage {
+    type: 'error';
+    code: ErrorCode;
+    message: string;
+}
+
+export type ServerMessage =
+    | HostInfoMessage
+    | JoinedMessage
+    | ResumeFailedMessage
+    | PlayerListMessage
+    | GameStartMessage
+    | StateSnapshotMessage
+    | QuestionMessage
+    | PlayerAnsweredMessage
+    | RevealMessage
+    | FinalResultsMessage
+    | GameResetMessage
+    | KickedMessage
+    | AnswerFlaggedMessage
+    | HintMessage
+    | ReactionMessage
+    | RoundPausedMessage
+    | RoundResumedMessage
+    | ErrorMessage;
+
+/** Look up a message interface by its type tag */
+export type MessageOfType<M extends { type: string }, K extends M['type']> = Extract<M, { type: K }>;
+
+// ===== Validation =====
+
+type Fields = Record<string, unknown>;
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean): boolean =>
+    value === undefined || value === null || check(value);
+
+const isLatitude = (value: unknown): boolean => isNumber(value) && Math.abs(value) <= 90;
+
+const isLongitude = (value: unknown): boolean => isNumber(value) && Math.abs(value) <= 180;
+
+const isPositionList = (value: unknown): boolean =>
+    Array.isArray(value) && value.length <= MAX_RECORDED_POSITIONS && value.every(p =>
+        typeof p === 'object' && p !== null &&
+        isLatitude((p as Fields).lat) && isLongitude((p as Fields).lon) && isNumber((p as Fields).timestamp)
+    );
+
+/**
+ * Field checks per client message type
+ * Each returns an error description, or null if the message is well-formed
+ */
+const CLIENT_MESSAGE_VALIDATORS: { [K in ClientMessage['type']]: (m: Fields) => string | null } = {
+    'host-connect': (m) => {
+        if (!isOptional(m.host, isString)) return 'host must be a string';
+        if (!isOptional(m.code, isString)) return 'code must be a string';
+        if (!isOptional(m.hostToken, isString)) return 'hostToken must be a string';
+        return null;
+    },
+    'join': (m) => {
+        if (!isString(m.name) || m.name.trim().length === 0) return 'name is required';
+        if (!isString(m.code)) return 'code is required';
+        if (!isOptional(m.spectator, isBoolean)) return 'spectator must be a boolean';
+        return null;
+    },
+    'resume': (m) => isString(m.token) ? null : 'token is required',
+    'start-daily': (m) => {
+        if (!isString(m.name) || m.name.trim().length === 0) return 'name is required';
+        if (!isOptional(m.seed, isString)) return 'seed must be a string';
+        return null;
+    },
+    'start-challenge': (m) => {
+        if (!isString(m.name) || m.name.trim().length === 0) return 'name is required';
+        if (!isString(m.gameId) || m.gameId.length === 0) return 'gameId is required';
+        return null;
+    },
+    'start-game': (m) => {
+        if (!isOptional(m.maxRounds, isNumber)) return 'maxRounds must be a number';
+        if (!isOptional(m.timeLimit, isNumber)) return 'timeLimit must be a number';
+        if (!isOptional(m.scoring, isScoringModel)) return 'unknown scoring model';
+        if (!isOptional(m.pack, isString)) return 'pack must be a string';
+        if (!isOptional(m.catchUp, isCatchUpScore)) return 'unknown catch-up score';
+        if (!isOptional(m.continent, isRegion)) return 'unknown continent';
+        if (!isOptional(m.difficulty, isQuestionDifficulty)) return 'unknown difficulty';
+        if (!isOptional(m.speedBonus, isBoolean)) return 'speedBonus must be a boolean';
+        if (!isOptional(m.hints, isBoolean)) return 'hints must be a boolean';
+        return null;
+    },
+    'request-hint': (m) => isHintType(m.hint) ? null : 'unknown hint',
+    'reaction': (m) => isReaction(m.emoji) ? null : 'unknown reaction',
+    'submit-answer': (m) => {
+        if (!isLatitude(m.lat) || !isLongitude(m.lon)) return 'lat must be within ±90 and lon within ±180';
+        if (!isOptional(m.positions, isPositionList)) {
+            return `positions must be a list of at most ${MAX_RECORDED_POSITIONS} { lat, lon, timestamp } on the globe`;
+        }
+        return null;
+    },
+    'next-round': () => null,
+    'reset-game': () => null,
+    'play-again': () => null,
+    'set-teams': (m) => {
+        if (!isNumber(m.teamCount)) return 'teamCount must be a number';
+        if (!isOptional(m.teamScoring, isTeamScoring)) return 'unknown team scoring';
+        return null;
+    },
+    'choose-team': (m) => isNumber(m.team) ? null : 'team must be a number',
+    'kick-player': (m) => isString(m.name) ? null : 'name is required',
+    'pause-round': () => null,
+    'resume-round': () => null,
+    'skip-question': () => null,
+    'end-game': () => null,
+    'add-bot': (m) => isBotDifficulty(m.difficulty) ? null : 'unknown bot difficulty'
+};
+
+export function isHandshakeMessage(message: ClientMessage): message is HandshakeMessage {
+    return message.type === 'host-connect' || message.type === 'join' || message.type === 'resume' ||
+        message.type === 'start-daily' || message.type === 'start-challenge';
+}
+
+export type ParseResult =
+    | { ok: true; message: ClientMessage }
+    | { ok: false; error: string };
+
+/**
+ * Parse and validate a raw message from a client
+ */
+export function parseClientMessage(raw: string): ParseResult {
+    if (raw.length > MAX_MESSAGE_BYTES) {
+        return { ok: false, error: `Message is too large (over ${MAX_MESSAGE_BYTES / 1024} KB)` };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { ok: false, error: 'Message is not valid JSON' };
+    }
+
+    if (typeof data !== 'object' || data === null || !isString((data as Fields).type)) {
+        return { ok: false, error: 'Message has no type' };
+    }
+
+    const fields = data as Fields;
+    const type = fields.type as string;
+    if (!Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_VALIDATORS, type)) {
+        return { ok: false, error: `Unknown message type: ${type}` };
+    }
+
+    const error = CLIENT_MESSAGE_VALIDATORS[type as ClientMessage['type']](fields);
+    if (error) {
+        return { ok: false, error: `Invalid ${type} message: ${error}` };
+    }
+
+    return { ok: true, message: fields as unknown as ClientMessage };
+}
+
+/**
+ * Check the protocol version sent with a handshake
+ * @returns Error message to send back, or null if the versions match
+ */
+export function checkProtocolVersion(message: HandshakeMessage): string | null {
+    if (message.protocolVersion === PROTOCOL_VERSION) return null;
+
+    const clientVersion = isNumber(message.protocolVersion) ? `v${message.protocolVersion}` : 'an unknown version';
+    return `This page uses protocol ${clientVersion}, but the server speaks v${PROTOCOL_VERSION}. Reload the page to update.`;
+}
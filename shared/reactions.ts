@@ -0,0 +1,17 @@
+/**
+ * Reactions
+ * Emoji players can send from their phones while results are showing,
+ * shared by server and clients
+ */
+
+export const REACTIONS = ['👏', '😂', '😮', '😭', '🔥', '🤦'] as const;
+
+export type Reaction = typeof REACTIONS[number];
+
+// Per player - reactions beyond this are dropped by the server
+export const MAX_REACTIONS_PER_WINDOW = 3;
+export const REACTION_WINDOW_MS = 3000;
+
+export function isReaction(value: unknown): value is Reaction {
+    return typeof value === 'string' && (REACTIONS as readonly string[]).includes(value);
+}
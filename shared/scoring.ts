@@ -1,8 +1,10 @@
 /**
  * Scoring System
- * Distance-based scoring formula for geography game
+ * Scoring formulas for the geography game, shared by server and clients
  */
 
+import type { QuestionMode } from './types';
+
 /**
  * Calculate points based on distance from correct answer
  *
@@ -43,6 +45,25 @@ export function getDistanceColor(distanceKm: number): string {
     }
 }
 
+// One emoji per getDistanceColor band, for text that can't show colors
+const DISTANCE_EMOJI: Record<string, string> = {
+    '#00FF00': '🎯',
+    '#88FF00': '🟩',
+    '#FFFF00': '🟨',
+    '#FFAA00': '🟧',
+    '#FF5500': '🟥',
+    '#FF0000': '⬛'
+};
+
+/**
+ * Emoji for a distance, matching the getDistanceColor bands
+ *
+ * @param distanceKm Distance in kilometers
+ */
+export function getDistanceEmoji(distanceKm: number): string {
+    return DISTANCE_EMOJI[getDistanceColor(distanceKm)];
+}
+
 /**
  * Format distance for display
  *
@@ -53,3 +74,169 @@ export function formatDistance(distanceKm: number): string {
     const rounded = Math.round(distanceKm);
     return `${rounded.toLocaleString()} km`;
 }
+
+/**
+ * Format a player's distance for the round results list
+ *
+ * @param distanceKm Distance from the round result, null if the player didn't answer
+ * @param mode Question mode - country questions measure to the border
+ */
+export function formatResultDistance(distanceKm: number | null, mode: QuestionMode = 'location'): string {
+    if (distanceKm === null) return 'No answer';
+    if (mode === 'country') {
+        return distanceKm === 0 ? 'Inside ✓' : `${formatDistance(distanceKm)} off`;
+    }
+    return formatDistance(distanceKm);
+}
+
+// ===== Scoring Models =====
+
+export type ScoringModel = 'rank' | 'linear' | 'exponential' | 'country';
+
+/**
+ * One player's answer as seen by a scoring model
+ */
+export interface ScoredAnswer {
+    distance: number;           // km from the correct location
+    inCorrectCountry: boolean;  // Pin landed inside the correct country
+}
+
+export interface ScoringModelDefinition {
+    label: string;
+    description: string;
+    /** Points for each answer, in the same order as the input */
+    score(answers: ScoredAnswer[]): number[];
+}
+
+const EXPONENTIAL_MAX_POINTS = 5000;
+const EXPONENTIAL_DECAY_KM = 1500; // Points drop to ~37% at this distance
+const COUNTRY_BONUS = 500;
+
+export const SCORING_MODELS: Record<ScoringModel, ScoringModelDefinition> = {
+    rank: {
+        label: 'Ranking',
+        description: 'Closest gets most points, last place gets 0',
+        score(answers) {
+            // Rank by distance: last place = 0, 2nd last = 1, etc.
+            // Equal distances (e.g. both inside the country) share the higher rank
+            return answers.map(answer =>
+                answers.filter(other => other.distance > answer.distance).length
+            );
+        }
+    },
+    linear: {
+        label: 'Distance',
+        description: '1000 points, minus 1 for every 10 km',
+        score(answers) {
+            return answers.map(answer => calculatePoints(answer.distance));
+        }
+    },
+    exponential: {
+        label: 'Precision',
+        description: 'Up to 5000 points, dropping fast with distance',
+        score(answers) {
+            return answers.map(answer =>
+                Math.round(EXPONENTIAL_MAX_POINTS * Math.exp(-answer.distance / EXPONENTIAL_DECAY_KM))
+            );
+        }
+    },
+    country: {
+        label: 'Country Bonus',
+        description: `Distance points + ${COUNTRY_BONUS} for landing in the right country`,
+        score(answers) {
+            return answers.map(answer =>
+                calculatePoints(answer.distance) + (answer.inCorrectCountry ? COUNTRY_BONUS : 0)
+            );
+        }
+    }
+};
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = 'rank';
+
+export function isScoringModel(value: unknown): value is ScoringModel {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCORING_MODELS, value);
+}
+
+/**
+ * Score one round's answers with the given model
+ *
+ * @returns Points for each answer, in the same order as the input
+ */
+export function scoreAnswers(model: ScoringModel, answers: ScoredAnswer[]): number[] {
+    return SCORING_MODELS[model].score(answers);
+}
+
+// ===== Catch-Up =====
+
+/** What a player who joins a running game starts on */
+export type CatchUpScore = 'zero' | 'lowest' | 'average';
+
+export interface CatchUpDefinition {
+    label: string;
+    description: string;
+}
+
+export const CATCH_UP_SCORES: Record<CatchUpScore, CatchUpDefinition> = {
+    zero: {
+        label: 'From zero',
+        description: 'Late joiners start with no points'
+    },
+    lowest: {
+        label: 'Last place',
+        description: 'Late joiners start level with the lowest score'
+    },
+    average: {
+        label: 'Average',
+        description: 'Late joiners start on the average score'
+    }
+};
+
+export const DEFAULT_CATCH_UP: CatchUpScore = 'zero';
+
+export function isCatchUpScore(value: unknown): value is CatchUpScore {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATCH_UP_SCORES, value);
+}
+
+/**
+ * Starting score for a player who joins a running game
+ *
+ * @param scores Totals of the players already playing
+ */
+export function getCatchUpScore(mode: CatchUpScore, scores: number[]): number {
+    if (mode === 'zero' || scores.length === 0) return 0;
+    if (mode === 'lowest') return Math.min(...scores);
+    return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+// ===== Speed Bonus =====
+
+/** Share of a round's points a player can add on top by answering at once */
+export const SPEED_BONUS_SHARE = 0.5;
+/** Without a time limit, the bonus runs out this long after the question */
+export const SPEED_BONUS_WINDOW_MS = 30000;
+
+/**
+ * Bonus for a quick answer, on top of the points it already scored - it shrinks
+ * to nothing over the window, and a far-off guess has few points to multiply
+ *
+ * @param points Points the answer scored, after hints
+ * @param answerTimeMs How long the player took to answer
+ * @param windowMs Time after which there is no bonus - the round's time limit if it has one
+ */
+export function calculateSpeedBonus(points: number, answerTimeMs: number, windowMs: number): number {
+    const speed = Math.max(0, 1 - answerTimeMs / windowMs);
+    return Math.round(points * SPEED_BONUS_SHARE * speed);
+}
+
+/**
+ * Format a player's answer time for the round results list
+ *
+ * @param answerTimeMs From the round result, undefined if the player didn't answer
+ * @param speedBonus Bonus points included in the result, if the game has a speed bonus
+ * @returns e.g. "4.2s ⚡+120", empty if there is no answer time
+ */
+export function formatAnswerTime(answerTimeMs: number | undefined, speedBonus?: number): string {
+    if (answerTimeMs === undefined) return '';
+    const time = `${(answerTimeMs / 1000).toFixed(1)}s`;
+    return speedBonus ? `${time} ⚡+${speedBonus}` : time;
+}
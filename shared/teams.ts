@@ -0,0 +1,56 @@
+/**
+ * Team Mode
+ * Team names, colors and the ways a team's pins combine into one answer,
+ * shared by server and clients
+ */
+
+import { getPlayerColor } from './playerColors';
+
+export type TeamScoring = 'best' | 'average' | 'centroid';
+
+export interface TeamScoringDefinition {
+    label: string;
+    description: string;
+}
+
+export const TEAM_SCORING_MODES: Record<TeamScoring, TeamScoringDefinition> = {
+    best: {
+        label: 'Best Member',
+        description: "The team's closest pin counts"
+    },
+    average: {
+        label: 'Average',
+        description: "The average distance of the team's pins counts"
+    },
+    centroid: {
+        label: 'Team Center',
+        description: "The point in the middle of the team's pins counts"
+    }
+};
+
+export const DEFAULT_TEAM_SCORING: TeamScoring = 'best';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 4;
+
+// Same order as PLAYER_COLORS, so a team's name matches its color
+const TEAM_NAMES = ['Red', 'Green', 'Blue', 'Yellow'];
+
+export function isTeamScoring(value: unknown): value is TeamScoring {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEAM_SCORING_MODES, value);
+}
+
+/**
+ * @param team Zero-based team index
+ */
+export function getTeamName(team: number): string {
+    return `${TEAM_NAMES[team] ?? `#${team + 1}`} Team`;
+}
+
+/**
+ * @param team Zero-based team index
+ * @returns Hex color string
+ */
+export function getTeamColor(team: number): string {
+    return getPlayerColor(team);
+}
@@ -3,14 +3,43 @@
  * Used by server, host, and mobile clients
  */
 
+import type { BotDifficulty } from './bots';
+import type { QuestionDifficulty } from './difficulty';
+import type { Region } from './geo';
+import type { HintType } from './hints';
+import type { ScoringModel } from './scoring';
+import type { TeamScoring } from './teams';
+
 // ===== Game Content =====
 
+export type QuestionMode =
+    | 'location'    // "Where is Paris?" - scored by distance to correctAnswer
+    | 'country';    // "Click Mongolia" - correct anywhere inside the country
+
 export interface Question {
     id: string;
     text: string;
-    correctAnswer: LatLon;
+    correctAnswer: LatLon;  // For country questions, a point in the middle of the country
     category?: string;
     imageUrl?: string;
+    country?: string;       // Country the answer lies in - shown on reveal, used by country scoring
+    mode?: QuestionMode;    // Defaults to 'location'
+    countryCode?: string;   // ISO2 of the target country - for location questions, the country the answer lies in
+    fame?: number;          // 0 (obscure) to 1 (world famous) - how close bots get, defaults to 0.5
+    population?: number;    // Cities only
+    continent?: Region;     // Continent of the answer, for continent-only games
+    difficulty?: QuestionDifficulty;
+}
+
+/** A question as players see it, without the answer or anything that gives it away */
+export type QuestionPrompt = Omit<Question, 'correctAnswer' | 'fame' | 'population' | 'continent' | 'difficulty'>;
+
+/** Summary of a question pack, offered in the lobby */
+export interface QuestionPackInfo {
+    id: string;
+    name: string;
+    description?: string;
+    questionCount: number;
 }
 
 export interface LatLon {
@@ -42,54 +71,122 @@ export interface PlayerAnswer {
 
 export type GameState =
     | 'lobby'       // Waiting for players (brother's code)
-    | 'question'    // Show question
+    | 'question'    // Game started, first question coming up
     | 'answering'   // Players placing pins
     | 'reveal'      // Show all answers + arcs
-    | 'results';    // Show leaderboard
+    | 'results';    // Show final leaderboard
 
-export interface GameStateData {
-    state: GameState;
-    currentQuestionIndex: number;
-    totalQuestions: number;
-    players: Player[];
-    answers: PlayerAnswer[];
-    correctAnswer?: LatLon;
+export interface LobbyPlayer {
+    name: string;
+    isFirst: boolean;
+    score: number;
+    team?: number;            // Zero-based team index, set in team mode
+    bot?: BotDifficulty;      // Set for computer players run by the server
+    recorded?: boolean;       // From the original game, in a challenge
+    waiting?: boolean;        // Joined mid-game, plays from the next question
+    away?: boolean;           // Phone stopped responding or disconnected
 }
 
-// ===== Socket Events Payload Types =====
+// ===== Teams =====
 
-// Server → Clients
-export interface StateChangePayload {
-    state: GameState;
+/** Team mode as chosen by the party host in the lobby */
+export interface TeamSettings {
+    count: number;
+    scoring: TeamScoring;     // How members' pins combine into the team's answer
 }
 
-export interface QuestionShowPayload {
-    question: Question;
-    questionNumber: number;
-    totalQuestions: number;
+/** One team's combined answer for a round */
+export interface TeamRoundResult {
+    team: number;
+    distance: number | null;  // km, null when no member answered
+    points: number;
+    totalScore: number;
 }
 
-export interface PlayerAnsweredPayload {
-    playerId: string;
-    playerName: string;
+export interface TeamStanding {
+    team: number;
+    score: number;
+    members: string[];
 }
 
-export interface AnswersRevealPayload {
-    answers: PlayerAnswer[];
-    correctAnswer: LatLon;
+export interface RoundResult {
+    name: string;
+    lat: number | null;       // null when the player missed the deadline
+    lon: number | null;
+    distance: number | null;  // km - to the border for country questions, 0 inside
+    missed?: boolean;         // Player did not answer before time ran out
+    inCorrectCountry?: boolean;
+    points: number;
+    totalScore?: number;
+    recorded?: boolean;       // An original player's answer, in a challenge
+    hints?: HintType[];       // Hints the player took this round
+    answerTime?: number;      // ms from the question reaching the player to their answer, measured by the server
+    speedBonus?: number;      // Part of points earned by answering quickly, when the game has a speed bonus
+    positions?: { lat: number; lon: number; timestamp: number }[];
 }
 
-export interface ResultsShowPayload {
-    leaderboard: Player[];
-    roundResults: PlayerAnswer[];
+export interface RevealData {
+    correct: {
+        name: string;       // Question text
+        country?: string;
+        lat: number;
+        lon: number;
+        mode?: QuestionMode;
+        countryCode?: string;
+    };
+    results: RoundResult[];
+    teamResults?: TeamRoundResult[];  // Team mode only, best first
+    scoring: ScoringModel;    // Model that produced the points
+    round: number;
+    maxRounds: number;
 }
 
-// Clients → Server
-export interface AnswerSubmitPayload {
-    lat: number;
-    lon: number;
+/**
+ * Full game state, sent by the server as a `state-snapshot` message
+ * to screens that connect or reconnect in the middle of a game
+ */
+export interface GameStateData {
+    state: GameState;
+    round: number;                  // Current round (0 before the first question)
+    maxRounds: number;
+    question: QuestionPrompt | null;
+    answered: string[];             // Names of players who answered the current round
+    deadline: number | null;        // Epoch ms (server clock) when the round auto-reveals
+    paused: boolean;                // Host has paused the round - no answers, timer stopped
+    serverTime: number;             // Server clock when the snapshot was sent
+    players: LobbyPlayer[];         // Includes scores
+    teamStandings?: TeamStanding[]; // Team mode only, best first
+    continent?: Region;             // Set when the game is limited to one continent
+    hints?: boolean;                // Set when players may take hints
+    lastReveal: RevealData | null;  // Most recent round results
 }
 
-export interface GameStartPayload {
-    questionCount: number;
+// ===== Game History =====
+
+/**
+ * A finished game, as stored in the server's game history
+ */
+export interface GameRecord {
+    id: string;
+    code: string;               // Room the game was played in
+    startedAt: number;          // Epoch ms
+    finishedAt: number;
+    scoring: ScoringModel;
+    pack: QuestionPackInfo;
+    rounds: RevealData[];       // Every round's results, including recorded pin positions
+    players: LobbyPlayer[];     // Final standings, best first
+    teamStandings?: TeamStanding[];
 }
+
+/** Short form of a GameRecord for listing past games */
+export interface GameSummary {
+    id: string;
+    code: string;
+    startedAt: number;
+    finishedAt: number;
+    packName: string;
+    roundCount: number;
+    players: LobbyPlayer[];
+}
+
+// Socket message shapes live in protocol.ts
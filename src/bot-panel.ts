@@ -3,7 +3,9 @@
  * Simulates 4 players joining and playing JordGlobe
  */
 
-import { generateBotMovementToTarget } from './botMovementGenerator';
+import { generateRandomAnswer } from './botMovementGenerator';
+import { PROTOCOL_VERSION } from '../shared/protocol';
+import type { QuestionPrompt } from '../shared/types';
 
 interface BotPlayer {
     name: string;
@@ -21,7 +23,7 @@ class BotPanel {
         { name: 'Bot Diana', ws: null, isConnected: false, hasAnswered: false, isFirst: false }
     ];
 
-    private currentQuestion: { city: string; country: string } | null = null;
+    private currentQuestion: QuestionPrompt | null = null;
     private gameStarted = false;
 
     // UI Elements
@@ -52,7 +54,12 @@ class BotPanel {
     }
 
     private async joinAllBots(): Promise<void> {
-        this.log('Joining all bots...', 'info');
+        if (!this.getRoomCode()) {
+            this.log('Enter the party code shown on the host screen first', 'error');
+            return;
+        }
+
+        this.log(`Joining all bots to party ${this.getRoomCode()}...`, 'info');
 
         for (let i = 0; i < this.bots.length; i++) {
             await this.connectBot(i);
@@ -78,7 +85,9 @@ class BotPanel {
                     // Send join message
                     ws.send(JSON.stringify({
                         type: 'join',
-                        name: bot.name
+                        protocolVersion: PROTOCOL_VERSION,
+                        name: bot.name,
+                        code: this.getRoomCode()
                     }));
 
                     this.updateBotCard(index);
@@ -131,9 +140,10 @@ class BotPanel {
                 break;
 
             case 'question':
-                this.currentQuestion = message;
-                this.log(`New question: Where is ${message.city}, ${message.country}?`, 'info');
-                this.questionText.textContent = `Where is ${message.city}, ${message.country}?`;
+                this.currentQuestion = message.question;
+                const where = message.question.country ? `${message.question.text}, ${message.question.country}` : message.question.text;
+                this.log(`New question: Where is ${where}?`, 'info');
+                this.questionText.textContent = `Where is ${where}?`;
                 this.gameInfo.style.display = 'block';
 
                 // Reset answered status for all bots
@@ -155,7 +165,8 @@ class BotPanel {
                 this.log('Round results revealed!', 'info');
                 if (message.results) {
                     message.results.forEach((r: any) => {
-                        this.log(`${r.name}: ${r.distance.toFixed(0)}km away, ${r.points} points`, 'success');
+                        const distance = r.distance === null ? 'no answer' : `${r.distance.toFixed(0)}km away`;
+                        this.log(`${r.name}: ${distance}, ${r.points} points`, 'success');
                     });
                 }
                 // Don't reset hasAnswered here - keep it true so "Next Round" button stays enabled
@@ -208,28 +219,14 @@ class BotPanel {
     private async resetGame(): Promise<void> {
         this.log('Resetting game state...', 'warning');
 
-        // Send reset message via any connected bot (or create temporary connection)
-        const connectedBot = this.bots.find(b => b.ws && b.isConnected);
+        // Resets are scoped to a party and only accepted from its party host
+        const firstBot = this.bots.find(b => b.ws && b.isConnected && b.isFirst);
 
-        if (connectedBot && connectedBot.ws) {
-            // Use existing connection
-            connectedBot.ws.send(JSON.stringify({ type: 'reset-game' }));
-            this.log('Reset message sent via connected bot', 'info');
+        if (firstBot && firstBot.ws) {
+            firstBot.ws.send(JSON.stringify({ type: 'reset-game' }));
+            this.log(`Reset message sent via ${firstBot.name}`, 'info');
         } else {
-            // Create temporary connection to send reset
-            try {
-                const tempWs = new WebSocket('ws://localhost:3003');
-                tempWs.onopen = () => {
-                    tempWs.send(JSON.stringify({ type: 'reset-game' }));
-                    this.log('Reset message sent', 'success');
-                    setTimeout(() => tempWs.close(), 500);
-                };
-                tempWs.onerror = () => {
-                    this.log('Could not connect to server. Is it running?', 'error');
-                };
-            } catch (error) {
-                this.log('Failed to reset game. Please manually restart server with: npm run server', 'error');
-            }
+            this.log('No bot is the party host - reset it from the host screen instead', 'warning');
         }
 
         // Disconnect all bots locally
@@ -266,22 +263,7 @@ class BotPanel {
 
         this.bots.forEach((bot, index) => {
             if (bot.isConnected && bot.ws && !bot.hasAnswered) {
-                // Generate random coordinates with some variance
-                // This simulates "wrong" answers scattered around the globe
-                const baseLat = Math.random() * 180 - 90;  // -90 to 90
-                const baseLon = Math.random() * 360 - 180; // -180 to 180
-
-                // Generate fake movement to this position
-                const positions = generateBotMovementToTarget(baseLat, baseLon, 20 + Math.floor(Math.random() * 15), 1500 + Math.random() * 1000);
-
-                bot.ws.send(JSON.stringify({
-                    type: 'submit-answer',
-                    lat: baseLat,
-                    lon: baseLon,
-                    positions: positions
-                }));
-
-                this.log(`${bot.name} submitted answer: ${baseLat.toFixed(2)}, ${baseLon.toFixed(2)} with ${positions.length} positions`, 'info');
+                this.submitRandomAnswer(bot);
             }
         });
     }
@@ -302,26 +284,28 @@ class BotPanel {
             }
 
             if (bot.isConnected && bot.ws && !bot.hasAnswered) {
-                // Generate random coordinates with some variance
-                // This simulates "wrong" answers scattered around the globe
-                const baseLat = Math.random() * 180 - 90;  // -90 to 90
-                const baseLon = Math.random() * 360 - 180; // -180 to 180
-
-                // Generate fake movement to this position
-                const positions = generateBotMovementToTarget(baseLat, baseLon, 20 + Math.floor(Math.random() * 15), 1500 + Math.random() * 1000);
-
-                bot.ws.send(JSON.stringify({
-                    type: 'submit-answer',
-                    lat: baseLat,
-                    lon: baseLon,
-                    positions: positions
-                }));
-
-                this.log(`${bot.name} submitted answer: ${baseLat.toFixed(2)}, ${baseLon.toFixed(2)} with ${positions.length} positions`, 'info');
+                this.submitRandomAnswer(bot);
             }
         });
     }
 
+    /**
+     * Answer somewhere random on the globe, with fake movement to the pin
+     * This simulates "wrong" answers scattered around the globe
+     */
+    private submitRandomAnswer(bot: BotPlayer): void {
+        const { lat, lon, positions } = generateRandomAnswer();
+
+        bot.ws!.send(JSON.stringify({
+            type: 'submit-answer',
+            lat,
+            lon,
+            positions
+        }));
+
+        this.log(`${bot.name} submitted answer: ${lat.toFixed(2)}, ${lon.toFixed(2)} with ${positions.length} positions`, 'info');
+    }
+
     private nextRound(): void {
         const firstBot = this.bots.find(b => b.isFirst);
         if (!firstBot || !firstBot.ws) {
@@ -401,6 +385,11 @@ class BotPanel {
         this.nextRoundBtn.disabled = !this.gameStarted || !hasQuestion || !allAnswered || !firstBot || !firstBot.isConnected;
     }
 
+    private getRoomCode(): string {
+        const codeInput = document.getElementById('roomCode') as HTMLInputElement;
+        return codeInput ? codeInput.value.trim().toUpperCase() : '';
+    }
+
     private log(message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info'): void {
         const timestamp = new Date().toLocaleTimeString();
         const entry = document.createElement('div');
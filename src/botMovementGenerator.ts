@@ -9,6 +9,11 @@ export interface RecordedPosition {
     timestamp: number;
 }
 
+/** Bring a longitude back into -180..180 */
+function wrapLongitude(lon: number): number {
+    return ((lon % 360) + 540) % 360 - 180;
+}
+
 /**
  * Generate realistic pin movement from start to end position
  * Simulates cursor movement with wobble to look natural
@@ -32,8 +37,9 @@ export function generateBotMovement(
         const wobbleX = Math.sin(t * Math.PI * 5) * wobbleAmount * (1 - t);
         const wobbleY = Math.cos(t * Math.PI * 4) * wobbleAmount * (1 - t);
 
-        const lat = startLat + (endLat - startLat) * t + wobbleY;
-        const lon = startLon + (endLon - startLon) * t + wobbleX;
+        // Keep every point on the globe - the server rejects paths that leave it
+        const lat = Math.max(-90, Math.min(90, startLat + (endLat - startLat) * t + wobbleY));
+        const lon = wrapLongitude(startLon + (endLon - startLon) * t + wobbleX);
 
         positions.push({ lat, lon, timestamp });
     }
@@ -45,14 +51,18 @@ export function generateBotMovement(
  * Generate a random starting position away from the target
  * This makes the bot movement look more realistic (coming from somewhere)
  */
-export function generateRandomStartPosition(targetLat: number, targetLon: number): { lat: number; lon: number } {
+export function generateRandomStartPosition(
+    targetLat: number,
+    targetLon: number,
+    random: () => number = Math.random
+): { lat: number; lon: number } {
     // Generate a point roughly 30-60 degrees away
-    const distance = 30 + Math.random() * 30;
-    const angle = Math.random() * Math.PI * 2;
+    const distance = 30 + random() * 30;
+    const angle = random() * Math.PI * 2;
 
     // Simple offset (not geodesically accurate but good enough for visual effect)
     const startLat = Math.max(-90, Math.min(90, targetLat + Math.cos(angle) * distance));
-    const startLon = ((targetLon + Math.sin(angle) * distance + 180) % 360) - 180;
+    const startLon = wrapLongitude(targetLon + Math.sin(angle) * distance);
 
     return { lat: startLat, lon: startLon };
 }
@@ -60,13 +70,28 @@ export function generateRandomStartPosition(targetLat: number, targetLon: number
 /**
  * Generate complete bot movement to a target position
  * Automatically picks a random start position
+ * The game server passes its own RNG so bot games stay reproducible in tests
  */
 export function generateBotMovementToTarget(
     targetLat: number,
     targetLon: number,
     numPositions?: number,
-    duration?: number
+    duration?: number,
+    random: () => number = Math.random
 ): RecordedPosition[] {
-    const start = generateRandomStartPosition(targetLat, targetLon);
+    const start = generateRandomStartPosition(targetLat, targetLon, random);
     return generateBotMovement(start.lat, start.lon, targetLat, targetLon, numPositions, duration);
 }
+
+/**
+ * A random pin anywhere on the globe, with movement leading to it
+ * Stands in for a real player's answer in the bot panel and the load test
+ */
+export function generateRandomAnswer(
+    random: () => number = Math.random
+): { lat: number; lon: number; positions: RecordedPosition[] } {
+    const lat = random() * 180 - 90;  // -90 to 90
+    const lon = random() * 360 - 180; // -180 to 180
+    const positions = generateBotMovementToTarget(lat, lon, 20 + Math.floor(random() * 15), 1500 + random() * 1000, random);
+    return { lat, lon, positions };
+}
@@ -1,9 +1,16 @@
 /**
  * Camera Animator Module
  * Handles smooth camera animations for ArcRotateCamera
+ * Can also frame a lat/lon box and keep the camera from leaving it
  */
 
 import { ArcRotateCamera } from '@babylonjs/core/Cameras/arcRotateCamera';
+import { calculateDistance, EARTH_RADIUS_KM, type RegionBounds } from '../shared/geo';
+
+const GLOBE_RADIUS = 2.0; // Matches EARTH_RADIUS in earthGlobe.ts
+const FRAME_MARGIN = 1.1; // Extra distance so the box edges aren't cut off
+const LIMIT_MARGIN_DEG = 5; // How far past the box the camera may look when limited
+const LIMIT_ZOOM_OUT = 1.5; // How far past the framing distance the camera may zoom out when limited
 
 /**
  * Easing function for smooth animations (ease-in-out cubic)
@@ -16,6 +23,7 @@ function easeInOutCubic(t: number): number {
 
 export class CameraAnimator {
     private camera: ArcRotateCamera;
+    private defaultUpperRadiusLimit: number | null = null; // Set while limited to a box
 
     constructor(camera: ArcRotateCamera) {
         this.camera = camera;
@@ -102,6 +110,83 @@ export class CameraAnimator {
         });
     }
 
+    /**
+     * Animate camera to show the whole of a lat/lon box
+     * @param bounds Box to frame
+     * @param duration Animation duration in milliseconds
+     * @returns Promise that resolves when animation completes
+     */
+    async animateToBounds(bounds: RegionBounds, duration: number): Promise<void> {
+        const { lat, lon } = this.getBoundsCenter(bounds);
+        return this.animateToLocation(lat, lon, this.getRadiusForBounds(bounds), duration);
+    }
+
+    /**
+     * Keep the camera looking into a lat/lon box, or lift the limits with null
+     * The camera should already be inside the box (after animateToBounds), or it snaps there
+     */
+    limitToBounds(bounds: RegionBounds | null): void {
+        if (!bounds) {
+            this.camera.lowerAlphaLimit = null;
+            this.camera.upperAlphaLimit = null;
+            this.camera.lowerBetaLimit = 0.01;
+            this.camera.upperBetaLimit = Math.PI - 0.01;
+            if (this.defaultUpperRadiusLimit !== null) {
+                this.camera.upperRadiusLimit = this.defaultUpperRadiusLimit;
+                this.defaultUpperRadiusLimit = null;
+            }
+            return;
+        }
+
+        const lower = this.latLonToAlphaBeta(bounds.maxLat + LIMIT_MARGIN_DEG, bounds.minLon - LIMIT_MARGIN_DEG);
+        const upper = this.latLonToAlphaBeta(bounds.minLat - LIMIT_MARGIN_DEG, bounds.maxLon + LIMIT_MARGIN_DEG);
+
+        // Spinning the globe winds alpha up by whole turns - take the turn nearest the box so the limits don't snap it to an edge
+        const center = (lower.alpha + upper.alpha) / 2;
+        const turns = Math.round((this.camera.alpha - center) / (2 * Math.PI));
+        this.camera.alpha -= turns * 2 * Math.PI;
+
+        this.camera.lowerAlphaLimit = lower.alpha;
+        this.camera.upperAlphaLimit = upper.alpha;
+        this.camera.lowerBetaLimit = Math.max(0.01, lower.beta);
+        this.camera.upperBetaLimit = Math.min(Math.PI - 0.01, upper.beta);
+
+        if (this.defaultUpperRadiusLimit === null) {
+            this.defaultUpperRadiusLimit = this.camera.upperRadiusLimit ?? 20;
+        }
+        this.camera.upperRadiusLimit = Math.min(this.defaultUpperRadiusLimit, this.getRadiusForBounds(bounds) * LIMIT_ZOOM_OUT);
+    }
+
+    private getBoundsCenter(bounds: RegionBounds): { lat: number; lon: number } {
+        return {
+            lat: (bounds.minLat + bounds.maxLat) / 2,
+            lon: (bounds.minLon + bounds.maxLon) / 2
+        };
+    }
+
+    /**
+     * Camera distance at which the whole box fits on screen
+     * Each corner and edge midpoint is an angle away from the view axis - the widest one
+     * has to fit inside the narrower of the vertical and horizontal field of view
+     */
+    private getRadiusForBounds(bounds: RegionBounds): number {
+        const center = this.getBoundsCenter(bounds);
+        const edgePoints = [bounds.minLat, center.lat, bounds.maxLat].flatMap(lat =>
+            [bounds.minLon, center.lon, bounds.maxLon].map(lon => ({ lat, lon }))
+        );
+        const angle = Math.min(Math.PI / 2, Math.max(...edgePoints.map(p =>
+            calculateDistance(center.lat, center.lon, p.lat, p.lon) / EARTH_RADIUS_KM
+        )));
+
+        const aspect = this.camera.getEngine().getAspectRatio(this.camera);
+        const tanHalfFov = Math.tan(this.camera.fov / 2) * Math.min(1, aspect);
+        const radius = (GLOBE_RADIUS * Math.cos(angle) + GLOBE_RADIUS * Math.sin(angle) / tanHalfFov) * FRAME_MARGIN;
+
+        const lowerLimit = this.camera.lowerRadiusLimit ?? 0;
+        const upperLimit = this.defaultUpperRadiusLimit ?? this.camera.upperRadiusLimit ?? Infinity;
+        return Math.max(lowerLimit, Math.min(upperLimit, radius));
+    }
+
     /**
      * Reset camera to default position
      * @param duration Animation duration in milliseconds
@@ -0,0 +1,164 @@
+/**
+ * ChallengeComparison - Shown after a challenge game
+ * Steps through the rounds on the globe with the challenger's pin next to the
+ * original players' pins, each with an arc to the answer
+ */
+
+import type { EarthGlobe } from '../earthGlobe';
+import { MultiPinManager } from '../multiPinManager';
+import { ArcDrawer } from '../arcDrawer';
+import { CameraAnimator } from '../cameraAnimator';
+import { getPlayerColor } from '../../shared/playerColors';
+import { formatResultDistance } from '../../shared/scoring';
+import type { RevealData } from '../../shared/types';
+
+const CAMERA_TARGET_RADIUS = 6;
+const CAMERA_ANIMATION_DURATION = 1200;
+const ARC_ALTITUDE = 0.3;
+
+export class ChallengeComparison {
+    private pinManager: MultiPinManager;
+    private arcDrawer: ArcDrawer;
+    private cameraAnimator: CameraAnimator;
+    private ready: Promise<void>;
+
+    private container: HTMLElement;
+    private titleElement: HTMLElement;
+    private legendElement: HTMLElement;
+    private prevButton: HTMLButtonElement;
+    private nextButton: HTMLButtonElement;
+    private onCloseCallback: (() => void) | null = null;
+
+    private rounds: RevealData[] = [];
+    private colors = new Map<string, string>();  // Same color for a player in every round
+    private index = 0;
+
+    constructor(globe: EarthGlobe) {
+        this.pinManager = new MultiPinManager(
+            globe.getScene(),
+            globe.getCamera(),
+            (material) => globe.createUnlitMaterial(material)
+        );
+        this.arcDrawer = new ArcDrawer(globe.getScene(), globe);
+        this.cameraAnimator = new CameraAnimator(globe.getCamera());
+        this.ready = this.pinManager.init();
+
+        this.container = this.createContainer();
+        this.titleElement = this.container.querySelector('.comparison-title') as HTMLElement;
+        this.legendElement = this.container.querySelector('.comparison-legend') as HTMLElement;
+        this.prevButton = this.container.querySelector('#comparePrevBtn') as HTMLButtonElement;
+        this.nextButton = this.container.querySelector('#compareNextBtn') as HTMLButtonElement;
+
+        this.prevButton.addEventListener('click', () => this.showRound(this.index - 1));
+        this.nextButton.addEventListener('click', () => this.showRound(this.index + 1));
+        this.container.querySelector('#compareCloseBtn')?.addEventListener('click', () => {
+            this.hide();
+            this.onCloseCallback?.();
+        });
+
+        document.getElementById('gameScreen')?.appendChild(this.container);
+    }
+
+    private createContainer(): HTMLElement {
+        const container = document.createElement('div');
+        container.id = 'challengeComparison';
+        container.style.cssText = `
+            position: absolute;
+            bottom: 20px;
+            left: 50%;
+            transform: translateX(-50%);
+            width: min(90vw, 420px);
+            background: rgba(26, 26, 46, 0.95);
+            padding: 15px 20px;
+            border-radius: 12px;
+            border: 2px solid #e94560;
+            z-index: 250;
+            display: none;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        `;
+        const buttonStyle = 'width: auto; padding: 8px 16px; font-size: 1rem;';
+        container.innerHTML = `
+            <div class="comparison-title" style="color: #e94560; font-size: 1.1rem; font-weight: bold; text-align: center; margin-bottom: 10px;"></div>
+            <div class="comparison-legend" style="margin-bottom: 12px;"></div>
+            <div style="display: flex; gap: 8px; justify-content: space-between;">
+                <button id="comparePrevBtn" style="${buttonStyle}">◀</button>
+                <button id="compareCloseBtn" class="secondary" style="${buttonStyle} margin-top: 0;">RESULTS</button>
+                <button id="compareNextBtn" style="${buttonStyle}">▶</button>
+            </div>
+        `;
+        return container;
+    }
+
+    /**
+     * Start at the first round
+     * @param rounds Reveals of the challenge, with the recorded answers in each
+     */
+    show(rounds: RevealData[], myName: string): void {
+        if (rounds.length === 0) return;
+        this.rounds = rounds;
+
+        // Challenger first, then the original players in the order they first appear
+        const names = [myName, ...rounds.flatMap(round => round.results.map(r => r.name))];
+        this.colors.clear();
+        names.forEach(name => {
+            if (!this.colors.has(name)) this.colors.set(name, getPlayerColor(this.colors.size));
+        });
+
+        this.container.style.display = 'block';
+        this.showRound(0);
+    }
+
+    hide(): void {
+        this.container.style.display = 'none';
+        this.pinManager.clearAllPins();
+        this.arcDrawer.clearArcs();
+    }
+
+    /**
+     * Register a callback for going back to the final results
+     */
+    onClose(callback: () => void): void {
+        this.onCloseCallback = callback;
+    }
+
+    private async showRound(index: number): Promise<void> {
+        if (index < 0 || index >= this.rounds.length) return;
+        this.index = index;
+        const { correct, results } = this.rounds[index];
+
+        this.titleElement.textContent = `Round ${index + 1}/${this.rounds.length}: ${correct.name}${correct.country ? `, ${correct.country}` : ''}`;
+        this.prevButton.disabled = index === 0;
+        this.nextButton.disabled = index === this.rounds.length - 1;
+
+        // Names come from players, so the legend is built without innerHTML
+        this.legendElement.replaceChildren(...results.map(r => {
+            const row = document.createElement('div');
+            row.style.cssText = 'display: flex; align-items: center; gap: 8px; padding: 3px 0; color: white;';
+            const dot = document.createElement('span');
+            dot.style.cssText = `width: 12px; height: 12px; border-radius: 50%; background: ${this.colors.get(r.name)};`;
+            const name = document.createElement('span');
+            name.style.flex = '1';
+            name.textContent = r.name;
+            const distance = document.createElement('span');
+            distance.style.color = 'rgba(255,255,255,0.6)';
+            distance.textContent = formatResultDistance(r.distance, correct.mode);
+            row.append(dot, name, distance);
+            return row;
+        }));
+
+        await this.ready;
+        if (this.index !== index) return; // Moved on while the pin model loaded
+
+        this.pinManager.clearAllPins();
+        this.arcDrawer.clearArcs();
+        results.forEach(r => {
+            if (r.lat === null || r.lon === null) return; // Missed the round
+            const color = this.colors.get(r.name) ?? getPlayerColor(0);
+            this.pinManager.addPin(`player_${r.name}`, r.name, color, r.lat, r.lon);
+            const arcId = this.arcDrawer.addArc(r.lat, r.lon, correct.lat, correct.lon, color, ARC_ALTITUDE);
+            this.arcDrawer.setArcProgress(arcId, 1);
+        });
+
+        await this.cameraAnimator.animateToLocation(correct.lat, correct.lon, CAMERA_TARGET_RADIUS, CAMERA_ANIMATION_DURATION);
+    }
+}
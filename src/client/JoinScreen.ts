@@ -1,59 +1,150 @@
 /**
- * JoinScreen - Name input screen for players joining the game
+ * JoinScreen - Party code and name input screen for players joining the game
+ * "Just watch" joins as a spectator instead of a player
+ * "Daily challenge" needs only a name - the seed is optional
+ * A challenge link swaps the party form for a single "Play challenge" button
  */
 
 export class JoinScreen {
+    private codeInput: HTMLInputElement;
     private nameInput: HTMLInputElement;
     private joinButton: HTMLButtonElement;
-    private onJoinCallback: ((name: string) => void) | null = null;
+    private watchButton: HTMLButtonElement;
+    private seedInput: HTMLInputElement;
+    private dailyButton: HTMLButtonElement;
+    private challengeButton: HTMLButtonElement;
+    private challengeId: string | null = null;
+    private onJoinCallback: ((name: string, code: string, spectator: boolean) => void) | null = null;
+    private onDailyCallback: ((name: string, seed: string) => void) | null = null;
+    private onChallengeCallback: ((name: string, gameId: string) => void) | null = null;
 
     constructor() {
+        this.codeInput = document.getElementById('codeInput') as HTMLInputElement;
         this.nameInput = document.getElementById('nameInput') as HTMLInputElement;
         this.joinButton = document.getElementById('joinButton') as HTMLButtonElement;
+        this.watchButton = document.getElementById('watchButton') as HTMLButtonElement;
+        this.seedInput = document.getElementById('seedInput') as HTMLInputElement;
+        this.dailyButton = document.getElementById('dailyButton') as HTMLButtonElement;
+        this.challengeButton = document.getElementById('challengeButton') as HTMLButtonElement;
 
         this.setupEventListeners();
     }
 
     private setupEventListeners(): void {
         // Handle join button click
-        this.joinButton.addEventListener('click', () => this.handleJoin());
+        this.joinButton.addEventListener('click', () => this.handleJoin(false));
+        this.watchButton.addEventListener('click', () => this.handleJoin(true));
+        this.dailyButton.addEventListener('click', () => this.handleDaily());
+        this.challengeButton.addEventListener('click', () => this.handleChallenge());
 
-        // Handle Enter key in input
-        this.nameInput.addEventListener('keypress', (e) => {
-            if (e.key === 'Enter') {
-                this.handleJoin();
-            }
-        });
+        // Handle Enter key in inputs
+        [this.codeInput, this.nameInput].forEach(input => {
+            input.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    if (this.challengeId) this.handleChallenge(); else this.handleJoin(false);
+                }
+            });
 
-        // Enable/disable button based on input
-        this.nameInput.addEventListener('input', () => {
-            this.joinButton.disabled = this.nameInput.value.trim().length === 0;
+            // Enable/disable button based on input
+            input.addEventListener('input', () => this.updateButtonState());
         });
 
         // Initial state
-        this.joinButton.disabled = true;
+        this.updateButtonState();
     }
 
-    private handleJoin(): void {
+    private updateButtonState(): void {
+        const incomplete = this.getCode().length === 0 || this.nameInput.value.trim().length === 0;
+        this.joinButton.disabled = incomplete;
+        this.watchButton.disabled = incomplete;
+        this.dailyButton.disabled = this.nameInput.value.trim().length === 0;
+        this.challengeButton.disabled = this.nameInput.value.trim().length === 0;
+    }
+
+    private getCode(): string {
+        return this.codeInput.value.trim().toUpperCase();
+    }
+
+    private handleJoin(spectator: boolean): void {
         const name = this.nameInput.value.trim();
-        if (name.length > 0 && this.onJoinCallback) {
-            this.onJoinCallback(name);
+        const code = this.getCode();
+        if (name.length > 0 && code.length > 0 && this.onJoinCallback) {
+            this.onJoinCallback(name, code, spectator);
         }
     }
 
+    private handleDaily(): void {
+        const name = this.nameInput.value.trim();
+        if (name.length > 0 && this.onDailyCallback) {
+            this.onDailyCallback(name, this.seedInput.value.trim());
+        }
+    }
+
+    private handleChallenge(): void {
+        const name = this.nameInput.value.trim();
+        if (name.length > 0 && this.challengeId && this.onChallengeCallback) {
+            this.onChallengeCallback(name, this.challengeId);
+        }
+    }
+
+    /**
+     * Prefill the party code (e.g., from the QR code link)
+     */
+    setCode(code: string): void {
+        this.codeInput.value = code.toUpperCase();
+        this.updateButtonState();
+    }
+
     /**
-     * Register a callback for when the player joins
+     * Register a callback for when the player joins (or starts watching)
      */
-    onJoin(callback: (name: string) => void): void {
+    onJoin(callback: (name: string, code: string, spectator: boolean) => void): void {
         this.onJoinCallback = callback;
     }
 
+    /**
+     * Prefill the daily challenge seed (e.g., from a shared ?seed= link)
+     */
+    setSeed(seed: string): void {
+        this.seedInput.value = seed;
+    }
+
+    /**
+     * Register a callback for starting the daily challenge (empty seed = today's)
+     */
+    onDaily(callback: (name: string, seed: string) => void): void {
+        this.onDailyCallback = callback;
+    }
+
+    /**
+     * Offer a recorded game from a ?challenge= link instead of joining a party
+     */
+    setChallenge(gameId: string): void {
+        this.challengeId = gameId;
+        (document.getElementById('codeGroup') as HTMLElement).style.display = 'none';
+        (document.getElementById('partySection') as HTMLElement).style.display = 'none';
+        (document.getElementById('challengeSection') as HTMLElement).style.display = 'block';
+        this.updateButtonState();
+    }
+
+    /**
+     * Register a callback for starting a challenge
+     */
+    onChallenge(callback: (name: string, gameId: string) => void): void {
+        this.onChallengeCallback = callback;
+    }
+
     /**
      * Disable the join form (e.g., while connecting)
      */
     disable(): void {
+        this.codeInput.disabled = true;
         this.nameInput.disabled = true;
         this.joinButton.disabled = true;
+        this.watchButton.disabled = true;
+        this.seedInput.disabled = true;
+        this.dailyButton.disabled = true;
+        this.challengeButton.disabled = true;
         this.joinButton.textContent = 'JOINING...';
     }
 
@@ -61,8 +152,10 @@ export class JoinScreen {
      * Re-enable the join form (e.g., if connection fails)
      */
     enable(): void {
+        this.codeInput.disabled = false;
         this.nameInput.disabled = false;
-        this.joinButton.disabled = this.nameInput.value.trim().length === 0;
+        this.seedInput.disabled = false;
         this.joinButton.textContent = 'JOIN';
+        this.updateButtonState();
     }
 }
@@ -1,16 +1,44 @@
 /**
  * WaitingScreen - Shown after joining, first player can start the game
+ * In team mode everyone picks a team here; the first player sets up the teams
  */
 
+import { SCORING_MODELS, DEFAULT_SCORING_MODEL, CATCH_UP_SCORES, DEFAULT_CATCH_UP, SPEED_BONUS_SHARE, type CatchUpScore, type ScoringModel } from '../../shared/scoring';
+import { TEAM_SCORING_MODES, DEFAULT_TEAM_SCORING, MIN_TEAMS, MAX_TEAMS, getTeamColor, getTeamName, type TeamScoring } from '../../shared/teams';
+import { BOT_DIFFICULTIES, type BotDifficulty } from '../../shared/bots';
+import { QUESTION_DIFFICULTIES, type QuestionDifficulty } from '../../shared/difficulty';
+import { REGION_LABELS, type Region } from '../../shared/geo';
+import type { QuestionPackInfo, TeamSettings } from '../../shared/types';
+
+export interface GameSettings {
+    maxRounds: number;
+    timeLimit: number;      // Seconds per round, 0 = no limit
+    scoring: ScoringModel;
+    pack?: string;          // Question pack id, server default if not set
+    catchUp: CatchUpScore;  // Starting score of players who join mid-game
+    continent?: Region;     // Whole world if not set
+    difficulty?: QuestionDifficulty;  // Any difficulty if not set
+    speedBonus: boolean;    // Quick answers earn extra points
+    hints: boolean;         // Players may take clues that cost points
+}
+
 export interface Player {
     name: string;
     isFirst: boolean;
+    team?: number;
+    bot?: BotDifficulty;
 }
 
 export class WaitingScreen {
     private container: HTMLElement;
-    private onStartCallback: ((maxRounds: number) => void) | null = null;
+    private onStartCallback: ((settings: GameSettings) => void) | null = null;
+    private onTeamsChangeCallback: ((teamCount: number, teamScoring: TeamScoring) => void) | null = null;
+    private onTeamChoiceCallback: ((team: number) => void) | null = null;
+    private onKickCallback: ((name: string) => void) | null = null;
     private playerName: string = '';
+    private isFirstPlayer = false;
+    private packs: QuestionPackInfo[] = [];
+    private teams: TeamSettings | null = null;
 
     constructor() {
         this.container = this.createContainer();
@@ -25,8 +53,24 @@ export class WaitingScreen {
             <div class="waiting-content">
                 <h2 id="waitingTitle">Waiting for players...</h2>
                 <ul id="playerList"></ul>
+                <div id="teamPicker" style="display: none; margin-bottom: 20px;">
+                    <div style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; margin-bottom: 10px;">Pick your team:</div>
+                    <div id="teamButtons" style="display: flex; gap: 8px; justify-content: center; flex-wrap: wrap;"></div>
+                </div>
                 <p id="waitingMessage"></p>
                 <div id="roundSettings" style="display: none; margin-bottom: 20px;">
+                    <div id="packSettings" style="display: none;">
+                        <label for="questionPack" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin-bottom: 10px;">Questions:</label>
+                        <select id="questionPack" style="
+                            padding: 10px 15px;
+                            font-size: 1.2rem;
+                            border-radius: 8px;
+                            border: 2px solid #e94560;
+                            background: rgba(26, 26, 46, 0.8);
+                            color: white;
+                        "></select>
+                        <div id="packDescription" style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin: 8px 0 20px 0;"></div>
+                    </div>
                     <label for="roundCount" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin-bottom: 10px;">Number of Rounds:</label>
                     <input type="number" id="roundCount" min="1" max="20" value="2" style="
                         width: 80px;
@@ -38,6 +82,134 @@ export class WaitingScreen {
                         color: white;
                         text-align: center;
                     " />
+                    <label for="timeLimit" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Time per Round:</label>
+                    <select id="timeLimit" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="0">No limit</option>
+                        <option value="15">15 seconds</option>
+                        <option value="30" selected>30 seconds</option>
+                        <option value="60">60 seconds</option>
+                        <option value="90">90 seconds</option>
+                    </select>
+                    <label for="scoringModel" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Scoring:</label>
+                    <select id="scoringModel" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        ${Object.entries(SCORING_MODELS).map(([id, model]) => `
+                            <option value="${id}" ${id === DEFAULT_SCORING_MODEL ? 'selected' : ''}>${model.label}</option>
+                        `).join('')}
+                    </select>
+                    <div id="scoringDescription" style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;"></div>
+                    <label for="speedBonus" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Speed Bonus:</label>
+                    <select id="speedBonus" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="off" selected>Off</option>
+                        <option value="on">On</option>
+                    </select>
+                    <div style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;">Up to +${Math.round(SPEED_BONUS_SHARE * 100)}% for answering quickly</div>
+                    <label for="hints" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Hints:</label>
+                    <select id="hints" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="off" selected>Off</option>
+                        <option value="on">On</option>
+                    </select>
+                    <div style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;">Clues that cost points</div>
+                    <label for="catchUp" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Late Joiners:</label>
+                    <select id="catchUp" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        ${Object.entries(CATCH_UP_SCORES).map(([id, mode]) => `
+                            <option value="${id}" ${id === DEFAULT_CATCH_UP ? 'selected' : ''}>${mode.label}</option>
+                        `).join('')}
+                    </select>
+                    <div id="catchUpDescription" style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;"></div>
+                    <label for="continent" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Continent:</label>
+                    <select id="continent" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="" selected>Whole world</option>
+                        ${Object.entries(REGION_LABELS).map(([id, label]) => `
+                            <option value="${id}">${label}</option>
+                        `).join('')}
+                    </select>
+                    <label for="difficulty" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Difficulty:</label>
+                    <select id="difficulty" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="" selected>Any</option>
+                        ${Object.entries(QUESTION_DIFFICULTIES).map(([id, tier]) => `
+                            <option value="${id}">${tier.label}</option>
+                        `).join('')}
+                    </select>
+                    <div id="difficultyDescription" style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;"></div>
+                    <label for="teamCount" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Teams:</label>
+                    <select id="teamCount" style="
+                        padding: 10px 15px;
+                        font-size: 1.2rem;
+                        border-radius: 8px;
+                        border: 2px solid #e94560;
+                        background: rgba(26, 26, 46, 0.8);
+                        color: white;
+                    ">
+                        <option value="0" selected>Everyone for themselves</option>
+                        ${Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => `
+                            <option value="${MIN_TEAMS + i}">${MIN_TEAMS + i} teams</option>
+                        `).join('')}
+                    </select>
+                    <div id="teamScoringSettings" style="display: none;">
+                        <label for="teamScoring" style="color: rgba(255, 255, 255, 0.8); font-size: 1.1rem; display: block; margin: 20px 0 10px 0;">Team Answer:</label>
+                        <select id="teamScoring" style="
+                            padding: 10px 15px;
+                            font-size: 1.2rem;
+                            border-radius: 8px;
+                            border: 2px solid #e94560;
+                            background: rgba(26, 26, 46, 0.8);
+                            color: white;
+                        ">
+                            ${Object.entries(TEAM_SCORING_MODES).map(([id, mode]) => `
+                                <option value="${id}" ${id === DEFAULT_TEAM_SCORING ? 'selected' : ''}>${mode.label}</option>
+                            `).join('')}
+                        </select>
+                        <div id="teamScoringDescription" style="color: rgba(255, 255, 255, 0.6); font-size: 0.9rem; margin-top: 8px;"></div>
+                    </div>
                 </div>
                 <button id="startButton">START PARTY</button>
             </div>
@@ -118,16 +290,133 @@ export class WaitingScreen {
             if (this.onStartCallback) {
                 const roundInput = container.querySelector('#roundCount') as HTMLInputElement;
                 const maxRounds = roundInput ? parseInt(roundInput.value) : 2;
-                this.onStartCallback(maxRounds);
+                const timeLimitSelect = container.querySelector('#timeLimit') as HTMLSelectElement;
+                const timeLimit = timeLimitSelect ? parseInt(timeLimitSelect.value) : 0;
+                const scoringSelect = container.querySelector('#scoringModel') as HTMLSelectElement;
+                const scoring = scoringSelect ? scoringSelect.value as ScoringModel : DEFAULT_SCORING_MODEL;
+                const packSelect = container.querySelector('#questionPack') as HTMLSelectElement;
+                const pack = packSelect && packSelect.value ? packSelect.value : undefined;
+                const catchUpSelect = container.querySelector('#catchUp') as HTMLSelectElement;
+                const catchUp = catchUpSelect ? catchUpSelect.value as CatchUpScore : DEFAULT_CATCH_UP;
+                const continentSelect = container.querySelector('#continent') as HTMLSelectElement;
+                const continent = continentSelect && continentSelect.value ? continentSelect.value as Region : undefined;
+                const difficultySelect = container.querySelector('#difficulty') as HTMLSelectElement;
+                const difficulty = difficultySelect && difficultySelect.value ? difficultySelect.value as QuestionDifficulty : undefined;
+                const speedBonusSelect = container.querySelector('#speedBonus') as HTMLSelectElement;
+                const speedBonus = speedBonusSelect ? speedBonusSelect.value === 'on' : false;
+                const hintsSelect = container.querySelector('#hints') as HTMLSelectElement;
+                const hints = hintsSelect ? hintsSelect.value === 'on' : false;
+                this.onStartCallback({ maxRounds, timeLimit, scoring, pack, catchUp, continent, difficulty, speedBonus, hints });
             }
         });
 
+        // Explain the selected scoring model
+        const scoringSelect = container.querySelector('#scoringModel') as HTMLSelectElement;
+        const scoringDescription = container.querySelector('#scoringDescription') as HTMLElement;
+        const updateScoringDescription = () => {
+            scoringDescription.textContent = SCORING_MODELS[scoringSelect.value as ScoringModel].description;
+        };
+        scoringSelect.addEventListener('change', updateScoringDescription);
+        updateScoringDescription();
+
+        const catchUpSelect = container.querySelector('#catchUp') as HTMLSelectElement;
+        const catchUpDescription = container.querySelector('#catchUpDescription') as HTMLElement;
+        const updateCatchUpDescription = () => {
+            catchUpDescription.textContent = CATCH_UP_SCORES[catchUpSelect.value as CatchUpScore].description;
+        };
+        catchUpSelect.addEventListener('change', updateCatchUpDescription);
+        updateCatchUpDescription();
+
+        const difficultySelect = container.querySelector('#difficulty') as HTMLSelectElement;
+        const difficultyDescription = container.querySelector('#difficultyDescription') as HTMLElement;
+        const updateDifficultyDescription = () => {
+            const tier = QUESTION_DIFFICULTIES[difficultySelect.value as QuestionDifficulty];
+            difficultyDescription.textContent = tier ? tier.description : 'Questions of every tier';
+        };
+        difficultySelect.addEventListener('change', updateDifficultyDescription);
+        updateDifficultyDescription();
+
+        const packSelect = container.querySelector('#questionPack') as HTMLSelectElement;
+        packSelect.addEventListener('change', () => this.updatePackDescription());
+
+        // Team changes go to the server straight away so everyone can pick a team
+        const teamCountSelect = container.querySelector('#teamCount') as HTMLSelectElement;
+        const teamScoringSelect = container.querySelector('#teamScoring') as HTMLSelectElement;
+        const teamScoringDescription = container.querySelector('#teamScoringDescription') as HTMLElement;
+        const updateTeams = () => {
+            teamScoringDescription.textContent = TEAM_SCORING_MODES[teamScoringSelect.value as TeamScoring].description;
+            this.onTeamsChangeCallback?.(parseInt(teamCountSelect.value), teamScoringSelect.value as TeamScoring);
+        };
+        teamCountSelect.addEventListener('change', updateTeams);
+        teamScoringSelect.addEventListener('change', updateTeams);
+        teamScoringDescription.textContent = TEAM_SCORING_MODES[DEFAULT_TEAM_SCORING].description;
+
         return container;
     }
 
-    show(playerName: string, isFirstPlayer: boolean, players: Player[]): void {
+    /**
+     * Show the party's team setup (null = no teams)
+     */
+    setTeams(teams: TeamSettings | null): void {
+        this.teams = teams;
+
+        const teamScoringSettings = this.container.querySelector('#teamScoringSettings') as HTMLElement;
+        teamScoringSettings.style.display = teams ? 'block' : 'none';
+
+        const teamPicker = this.container.querySelector('#teamPicker') as HTMLElement;
+        const teamButtons = this.container.querySelector('#teamButtons') as HTMLElement;
+        teamPicker.style.display = teams ? 'block' : 'none';
+        teamButtons.innerHTML = '';
+        if (!teams) return;
+
+        for (let team = 0; team < teams.count; team++) {
+            const button = document.createElement('button');
+            button.textContent = getTeamName(team);
+            button.style.cssText = `
+                padding: 8px 14px;
+                font-size: 1rem;
+                font-weight: bold;
+                color: white;
+                background: rgba(26, 26, 46, 0.8);
+                border: 2px solid ${getTeamColor(team)};
+                border-radius: 8px;
+                cursor: pointer;
+            `;
+            button.addEventListener('click', () => this.onTeamChoiceCallback?.(team));
+            teamButtons.appendChild(button);
+        }
+    }
+
+    /**
+     * Offer the question packs the server has loaded
+     */
+    setPacks(packs: QuestionPackInfo[]): void {
+        this.packs = packs;
+        const packSelect = this.container.querySelector('#questionPack') as HTMLSelectElement;
+        const selected = packSelect.value;
+
+        packSelect.innerHTML = packs.map(pack => `
+            <option value="${pack.id}">${pack.name} (${pack.questionCount})</option>
+        `).join('');
+        if (packs.some(p => p.id === selected)) packSelect.value = selected;
+
+        // No point choosing when there's only one pack
+        const packSettings = this.container.querySelector('#packSettings') as HTMLElement;
+        packSettings.style.display = packs.length > 1 ? 'block' : 'none';
+        this.updatePackDescription();
+    }
+
+    private updatePackDescription(): void {
+        const packSelect = this.container.querySelector('#questionPack') as HTMLSelectElement;
+        const packDescription = this.container.querySelector('#packDescription') as HTMLElement;
+        const pack = this.packs.find(p => p.id === packSelect.value);
+        packDescription.textContent = pack?.description ?? '';
+    }
+
+    show(playerName: string, isFirstPlayer: boolean, players: Player[], spectator = false): void {
         this.container.style.display = 'flex';
         this.playerName = playerName;
+        this.isFirstPlayer = isFirstPlayer;
 
         const button = this.container.querySelector('#startButton') as HTMLButtonElement;
         const message = this.container.querySelector('#waitingMessage') as HTMLElement;
@@ -144,7 +433,9 @@ export class WaitingScreen {
         } else {
             const firstPlayer = players.find(p => p.isFirst);
             const hostName = firstPlayer ? firstPlayer.name : 'host';
-            message.textContent = `Waiting for ${hostName} to start the game`;
+            message.textContent = spectator
+                ? `You're watching - waiting for ${hostName} to start the game`
+                : `Waiting for ${hostName} to start the game`;
             button.style.display = 'none';
             roundSettings.style.display = 'none';
         }
@@ -174,7 +465,36 @@ export class WaitingScreen {
 
             // Show host indicator
             const hostBadge = player.isFirst ? ' ⭐' : '';
-            li.textContent = player.name + hostBadge;
+            const botBadge = player.bot ? ` 🤖 ${BOT_DIFFICULTIES[player.bot].label}` : '';
+            li.textContent = player.name + hostBadge + botBadge;
+
+            if (this.teams && player.team !== undefined) {
+                li.style.borderLeft = `6px solid ${getTeamColor(player.team)}`;
+                li.title = getTeamName(player.team);
+            }
+
+            // The party host can remove anyone else
+            if (this.isFirstPlayer && player.name !== this.playerName) {
+                const kickButton = document.createElement('button');
+                kickButton.textContent = '✕';
+                kickButton.title = `Remove ${player.name}`;
+                kickButton.style.cssText = `
+                    float: right;
+                    width: auto;
+                    padding: 0 6px;
+                    font-size: 1rem;
+                    background: none;
+                    border: none;
+                    color: rgba(255, 255, 255, 0.5);
+                    cursor: pointer;
+                `;
+                kickButton.addEventListener('click', () => {
+                    if (confirm(`Remove ${player.name} from the party?`)) {
+                        this.onKickCallback?.(player.name);
+                    }
+                });
+                li.appendChild(kickButton);
+            }
 
             playerList.appendChild(li);
         });
@@ -184,7 +504,19 @@ export class WaitingScreen {
         this.container.style.display = 'none';
     }
 
-    onStart(callback: (maxRounds: number) => void): void {
+    onStart(callback: (settings: GameSettings) => void): void {
         this.onStartCallback = callback;
     }
+
+    onTeamsChange(callback: (teamCount: number, teamScoring: TeamScoring) => void): void {
+        this.onTeamsChangeCallback = callback;
+    }
+
+    onTeamChoice(callback: (team: number) => void): void {
+        this.onTeamChoiceCallback = callback;
+    }
+
+    onKick(callback: (name: string) => void): void {
+        this.onKickCallback = callback;
+    }
 }
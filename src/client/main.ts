@@ -1,11 +1,23 @@
 // Client Entry Point
-// Mobile player app - join screen and globe with pin placement
+// Mobile player app for players and spectators - join screen and globe with pin placement
 
 import { JoinScreen } from './JoinScreen';
 import { WaitingScreen } from './WaitingScreen';
 import { GameSocket } from './socket';
 import { EarthGlobe } from '../earthGlobe';
+import { RevealVisualizer } from '../host/revealVisualizer';
+import { ChallengeComparison } from './ChallengeComparison';
+import { RegionFocus } from '../regionFocus';
 import { Confetti } from '../confetti';
+import { RoundCountdown } from '../roundCountdown';
+import { SCORING_MODELS, formatAnswerTime, formatResultDistance, type ScoringModel } from '../../shared/scoring';
+import { formatDailySummary } from '../../shared/daily';
+import { HINTS, formatHintIcons, type HintType } from '../../shared/hints';
+import { REACTIONS, type Reaction } from '../../shared/reactions';
+import type { LobbyPlayer, QuestionPrompt, RevealData, RoundResult } from '../../shared/types';
+
+/** A round result with a pin on the globe (the player answered in time) */
+type AnsweredResult = RoundResult & { lat: number; lon: number; distance: number };
 
 // Initialize the application when page loads
 window.addEventListener('DOMContentLoaded', async () => {
@@ -13,8 +25,27 @@ window.addEventListener('DOMContentLoaded', async () => {
     const waitingScreen = new WaitingScreen();
     const socket = new GameSocket();
 
-    // Check for name parameter in URL (e.g., /party.html?name=Bot Alice)
+    // Check for party code in URL (e.g., /party?code=ABCD from the host's QR code)
     const urlParams = new URLSearchParams(window.location.search);
+    const codeFromUrl = urlParams.get('code');
+    if (codeFromUrl) {
+        joinScreen.setCode(codeFromUrl);
+        console.log(`Party code prefilled from URL: ${codeFromUrl}`);
+    }
+
+    // Seed of a shared daily challenge (e.g., /party?seed=2026-10-19)
+    const seedFromUrl = urlParams.get('seed');
+    if (seedFromUrl) {
+        joinScreen.setSeed(seedFromUrl);
+    }
+
+    // Finished game shared by a host (e.g., /party?challenge=<game id>)
+    const challengeFromUrl = urlParams.get('challenge');
+    if (challengeFromUrl) {
+        joinScreen.setChallenge(challengeFromUrl);
+    }
+
+    // Check for name parameter in URL (e.g., /party.html?name=Bot Alice)
     const nameFromUrl = urlParams.get('name');
     if (nameFromUrl) {
         const nameInput = document.getElementById('nameInput') as HTMLInputElement;
@@ -29,12 +60,26 @@ window.addEventListener('DOMContentLoaded', async () => {
     // Track current player state
     let myName = '';
     let isFirstPlayer = false;
+    let isSpectator = false;
+    let players: LobbyPlayer[] = [];
+    let answered = new Set<string>();   // Players who answered the current round
     let globe: EarthGlobe | null = null;
+    let revealVisualizer: RevealVisualizer | null = null;  // Spectators only
+    let revealVisualizerReady: Promise<void> = Promise.resolve();
+    let regionFocus: RegionFocus | null = null;
     let questionOverlay: HTMLElement | null = null;
     let resultsOverlay: HTMLElement | null = null;
     let finalResultsOverlay: HTMLElement | null = null;
     let confetti: Confetti | null = null;
+    let countdown: RoundCountdown | null = null;
     let hasAnswered = false;  // Track if current question has been answered
+    let roundPaused = false;  // Host paused the round - answers wait until it resumes
+    let hintsEnabled = false; // Host turned hints on for this game
+    let moderationBar: HTMLElement | null = null;
+    let dailySeed: string | null = null;          // Set while playing the daily challenge
+    let dailyDistances: (number | null)[] = [];   // My distance each round, for the share summary
+    let challengeRounds: RevealData[] | null = null;  // Set while playing a challenge, for the pin comparison
+    let challengeComparison: ChallengeComparison | null = null;
 
     function createQuestionOverlay(): void {
         questionOverlay = document.createElement('div');
@@ -54,58 +99,213 @@ window.addEventListener('DOMContentLoaded', async () => {
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
         `;
         questionOverlay.innerHTML = `
-            <div style="color: rgba(255,255,255,0.7); font-size: 0.9rem; margin-bottom: 5px;">Where is...</div>
+            <div id="questionCategory" style="color: rgba(255,255,255,0.5); font-size: 0.75rem; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 5px;"></div>
+            <div id="questionPrompt" style="color: rgba(255,255,255,0.7); font-size: 0.9rem; margin-bottom: 5px;">Where is...</div>
             <div id="cityName" style="color: #e94560; font-size: 1.8rem; font-weight: bold; margin-bottom: 15px;"></div>
+            <img id="questionImage" alt="" style="max-width: 220px; max-height: 140px; border-radius: 8px; margin: 0 auto 10px auto; display: none;" />
+            <div id="roundTimer" style="font-size: 1.3rem; font-weight: bold; margin-bottom: 10px;"></div>
+            <div id="hintBar" style="display: none; gap: 6px; justify-content: center; margin-bottom: 10px;"></div>
+            <div id="hintText" style="color: #FFD700; font-size: 0.95rem; margin-bottom: 10px;"></div>
             <div id="instructionText" style="color: rgba(255,255,255,0.8); font-size: 0.95rem; margin-bottom: 10px;">
                 📍 Tap the pin button, then tap the globe to place your answer
             </div>
             <div id="answerStatus" style="color: #4CAF50; font-size: 1.1rem; font-weight: bold; display: none;">
                 ✓ Answer submitted!
             </div>
+            <div id="lateJoinText" style="color: rgba(255,255,255,0.8); font-size: 0.95rem; display: none;">
+                ⏳ You'll join from the next round
+            </div>
+            <div id="answerProgress" style="color: rgba(255,255,255,0.8); font-size: 0.95rem; display: none;"></div>
         `;
         document.getElementById('gameScreen')?.appendChild(questionOverlay);
+
+        // One button per hint, showing how much of the round's points it costs
+        const hintBar = questionOverlay.querySelector('#hintBar') as HTMLElement;
+        hintBar.innerHTML = (Object.keys(HINTS) as HintType[]).map(hint => `
+            <button data-hint="${hint}" title="${HINTS[hint].label} hint" style="width: auto; padding: 6px 10px; font-size: 0.85rem; margin: 0;">
+                ${HINTS[hint].icon} −${Math.round(HINTS[hint].cost * 100)}%
+            </button>
+        `).join('');
+        hintBar.querySelectorAll<HTMLButtonElement>('button[data-hint]').forEach(button => {
+            button.addEventListener('click', () => {
+                if (hasAnswered || roundPaused) return;
+                button.disabled = true;
+                socket.requestHint(button.dataset.hint as HintType);
+            });
+        });
+
+        countdown = new RoundCountdown(questionOverlay.querySelector('#roundTimer') as HTMLElement);
     }
 
-    function showQuestion(city: string): void {
+    function showQuestion(question: QuestionPrompt, deadline: number | null, serverTime: number): void {
         if (!questionOverlay) return;
 
         // Hide results overlay if visible
         if (resultsOverlay) resultsOverlay.style.display = 'none';
 
+        revealVisualizer?.hideReveal();
+        regionFocus?.frame();
+
+        // Joined while this question was running - the server seats us from the next one
+        const waiting = !isSpectator && players.some(p => p.name === myName && p.waiting);
+
         // Reset answer state for new question
-        hasAnswered = false;
+        hasAnswered = waiting;
+        roundPaused = false;
+        updateModerationBar();
+        answered.clear();
         const instructionText = questionOverlay.querySelector('#instructionText') as HTMLElement;
         const status = questionOverlay.querySelector('#answerStatus') as HTMLElement;
-        if (instructionText) instructionText.style.display = 'block';
+        const progress = questionOverlay.querySelector('#answerProgress') as HTMLElement;
+        const lateJoinText = questionOverlay.querySelector('#lateJoinText') as HTMLElement;
+        if (instructionText) instructionText.style.display = isSpectator || waiting ? 'none' : 'block';
         if (status) status.style.display = 'none';
+        if (progress) progress.style.display = isSpectator ? 'block' : 'none';
+        if (lateJoinText) lateJoinText.style.display = waiting ? 'block' : 'none';
+        updateAnswerProgress();
+        resetHints(question);
+        if (waiting) (questionOverlay.querySelector('#hintBar') as HTMLElement).style.display = 'none';
+
+        const promptEl = questionOverlay.querySelector('#questionPrompt');
+        if (promptEl) promptEl.textContent = question.mode === 'country' ? 'Find the country...' : 'Where is...';
 
         const cityEl = questionOverlay.querySelector('#cityName');
-        if (cityEl) cityEl.textContent = city;
+        if (cityEl) cityEl.textContent = question.text;
 
+        const categoryEl = questionOverlay.querySelector('#questionCategory') as HTMLElement;
+        if (categoryEl) categoryEl.textContent = question.category ?? '';
+
+        const imageEl = questionOverlay.querySelector('#questionImage') as HTMLImageElement;
+        if (imageEl) {
+            imageEl.src = question.imageUrl ?? '';
+            imageEl.style.display = question.imageUrl ? 'block' : 'none';
+        }
+
+        countdown?.start(deadline, serverTime);
         questionOverlay.style.display = 'block';
     }
 
+    /**
+     * Hint buttons for a new question - a country question already names its country
+     */
+    function resetHints(question: QuestionPrompt): void {
+        const hintBar = questionOverlay?.querySelector('#hintBar') as HTMLElement | null;
+        const hintText = questionOverlay?.querySelector('#hintText') as HTMLElement | null;
+        if (!hintBar || !hintText) return;
+
+        hintBar.style.display = isSpectator || !hintsEnabled ? 'none' : 'flex';
+        hintBar.querySelectorAll<HTMLButtonElement>('button[data-hint]').forEach(button => {
+            button.disabled = button.dataset.hint === 'country' && question.mode === 'country';
+        });
+        hintText.replaceChildren();
+    }
+
+    /**
+     * Spectators follow who has answered so far
+     */
+    function updateAnswerProgress(): void {
+        const progress = questionOverlay?.querySelector('#answerProgress');
+        if (!progress || !isSpectator) return;
+
+        // Late joiners sit out the current question
+        const answering = players.filter(p => !p.waiting);
+        progress.innerHTML = `
+            <div style="margin-bottom: 6px;">👀 ${answered.size}/${answering.length} answered</div>
+            <div>${answering.map(p => `
+                <span style="
+                    display: inline-block;
+                    padding: 3px 10px;
+                    margin: 2px;
+                    border-radius: 12px;
+                    background: ${answered.has(p.name) ? 'rgba(76, 175, 80, 0.3)' : 'rgba(255,255,255,0.1)'};
+                ">${p.name}${answered.has(p.name) ? ' ✓' : ''}</span>
+            `).join('')}</div>
+        `;
+    }
+
     function handleAnswerSubmitted(lat: number, lon: number, positions?: { lat: number; lon: number; timestamp: number }[]): void {
         if (hasAnswered) {
             console.log('Answer already submitted for this question');
             return;
         }
+        if (roundPaused) {
+            console.log('Round is paused - answer not sent');
+            return;
+        }
 
         hasAnswered = true;
         console.log(`Submitting answer: ${lat.toFixed(2)}, ${lon.toFixed(2)}`);
 
         // Submit to server with recorded positions
         socket.submitAnswer(lat, lon, positions);
+        showAnswerSubmitted();
+    }
 
-        // Update UI
+    function showAnswerSubmitted(): void {
         if (questionOverlay) {
             const instructionText = questionOverlay.querySelector('#instructionText') as HTMLElement;
             const status = questionOverlay.querySelector('#answerStatus') as HTMLElement;
+            const hintBar = questionOverlay.querySelector('#hintBar') as HTMLElement;
             if (instructionText) instructionText.style.display = 'none';
             if (status) status.style.display = 'block';
+            if (hintBar) hintBar.style.display = 'none';
         }
     }
 
+    /**
+     * Pause, skip and end buttons for the party host
+     */
+    function createModerationBar(): void {
+        moderationBar = document.createElement('div');
+        moderationBar.id = 'moderationBar';
+        moderationBar.style.cssText = `
+            position: absolute;
+            top: 20px;
+            right: 20px;
+            display: none;
+            flex-direction: column;
+            gap: 8px;
+            z-index: 150;
+        `;
+        const buttonStyle = `
+            width: 44px;
+            height: 44px;
+            padding: 0;
+            font-size: 1.2rem;
+            background: rgba(26, 26, 46, 0.9);
+            border: 2px solid #e94560;
+            border-radius: 10px;
+        `;
+        moderationBar.innerHTML = `
+            <button id="pauseRoundBtn" title="Pause round" style="${buttonStyle}">⏸</button>
+            <button id="skipQuestionBtn" title="Skip question" style="${buttonStyle}">⏭</button>
+            <button id="endGameBtn" title="End game" style="${buttonStyle}">⏹</button>
+        `;
+
+        moderationBar.querySelector('#pauseRoundBtn')?.addEventListener('click', () => {
+            if (roundPaused) socket.resumeRound(); else socket.pauseRound();
+        });
+        moderationBar.querySelector('#skipQuestionBtn')?.addEventListener('click', () => socket.skipQuestion());
+        moderationBar.querySelector('#endGameBtn')?.addEventListener('click', () => {
+            if (confirm('End the game now and show final results?')) socket.endGame();
+        });
+
+        document.getElementById('gameScreen')?.appendChild(moderationBar);
+        updateModerationBar();
+    }
+
+    function updateModerationBar(): void {
+        if (!moderationBar) return;
+        // Challenges replay a recorded game question for question, so there's nothing to moderate
+        moderationBar.style.display = isFirstPlayer && !challengeRounds ? 'flex' : 'none';
+
+        const pauseButton = moderationBar.querySelector('#pauseRoundBtn') as HTMLButtonElement;
+        pauseButton.textContent = roundPaused ? '▶' : '⏸';
+        pauseButton.title = roundPaused ? 'Resume round' : 'Pause round';
+        // Everyone playing a daily seed gets the same questions
+        (moderationBar.querySelector('#skipQuestionBtn') as HTMLButtonElement).style.display = dailySeed ? 'none' : '';
+    }
+
     function createResultsOverlay(): void {
         resultsOverlay = document.createElement('div');
         resultsOverlay.id = 'resultsOverlay';
@@ -127,17 +327,28 @@ window.addEventListener('DOMContentLoaded', async () => {
         document.getElementById('gameScreen')?.appendChild(resultsOverlay);
     }
 
-    function showResults(correct: { name: string; country: string }, results: { name: string; distance: number; points: number }[]): void {
+    async function showResults(correct: RevealData['correct'], results: RoundResult[], scoring: ScoringModel): Promise<void> {
         if (!resultsOverlay) return;
 
         // Hide question overlay
+        countdown?.stop();
         if (questionOverlay) questionOverlay.style.display = 'none';
 
+        // Spectators watch the pins and arcs land before the results table
+        if (revealVisualizer) {
+            await revealVisualizerReady;
+            await revealVisualizer.showReveal({
+                correct,
+                results: results.filter((r): r is AnsweredResult => r.lat !== null && r.lon !== null && r.distance !== null)
+            });
+        }
+
         resultsOverlay.innerHTML = `
             <div style="color: rgba(255,255,255,0.7); font-size: 0.9rem; margin-bottom: 5px;">The answer was</div>
             <div style="color: #e94560; font-size: 1.5rem; font-weight: bold; margin-bottom: 20px;">
-                ${correct.name}, ${correct.country}
+                ${correct.name}${correct.country ? `, ${correct.country}` : ''}
             </div>
+            <div style="color: rgba(255,255,255,0.5); font-size: 0.8rem; margin-bottom: 10px;">Scoring: ${SCORING_MODELS[scoring].label}</div>
             <div style="text-align: left; margin-bottom: 20px;">
                 ${results.map((r, i) => `
                     <div style="
@@ -148,12 +359,20 @@ window.addEventListener('DOMContentLoaded', async () => {
                         background: ${i === 0 ? 'rgba(255, 215, 0, 0.2)' : 'rgba(255,255,255,0.05)'};
                         border-radius: 8px;
                     ">
-                        <span style="color: white; flex: 1;">${r.name}</span>
-                        <span style="color: rgba(255,255,255,0.5); margin-right: 10px;">${r.distance.toLocaleString()} km</span>
+                        <span style="color: white; flex: 1;">${r.name}${formatHintIcons(r.hints)}${scoring === 'country' && r.inCorrectCountry ? ' 🎯' : ''}</span>
+                        <span style="color: rgba(255,255,255,0.5); margin-right: 10px;">${formatResultDistance(r.distance, correct.mode)}</span>
+                        <span style="color: rgba(255,255,255,0.5); margin-right: 10px;">${formatAnswerTime(r.answerTime, r.speedBonus)}</span>
                         <span style="color: ${r.points > 0 ? '#4CAF50' : 'rgba(255,255,255,0.5)'}; font-weight: bold;">+${r.points}p</span>
                     </div>
                 `).join('')}
             </div>
+            ${isSpectator ? '' : `
+                <div id="reactionBar" style="display: flex; justify-content: center; gap: 6px; margin-bottom: 20px;">
+                    ${REACTIONS.map(emoji => `
+                        <button data-reaction="${emoji}" style="width: auto; padding: 6px 10px; margin: 0; font-size: 1.4rem; background: rgba(255,255,255,0.1);">${emoji}</button>
+                    `).join('')}
+                </div>
+            `}
             ${isFirstPlayer ? `
                 <button id="nextRoundBtn" style="
                     padding: 12px 40px;
@@ -172,6 +391,11 @@ window.addEventListener('DOMContentLoaded', async () => {
 
         resultsOverlay.style.display = 'block';
 
+        // Reactions show up on the host screen
+        resultsOverlay.querySelectorAll<HTMLButtonElement>('button[data-reaction]').forEach(button => {
+            button.addEventListener('click', () => socket.sendReaction(button.dataset.reaction as Reaction));
+        });
+
         // Set up next round button handler for first player
         if (isFirstPlayer) {
             const nextBtn = resultsOverlay.querySelector('#nextRoundBtn') as HTMLButtonElement;
@@ -245,40 +469,125 @@ window.addEventListener('DOMContentLoaded', async () => {
                     </div>
                 `).join('')}
             </div>
-            <div style="color: ${myPosition === 1 ? '#FFD700' : 'rgba(255,255,255,0.7)'}; font-size: 1.1rem; font-weight: bold;">
-                You placed ${myPosition}${myPosition === 1 ? 'st' : myPosition === 2 ? 'nd' : myPosition === 3 ? 'rd' : 'th'}!
-            </div>
+            ${myPosition > 0 && !dailySeed ? `
+                <div style="color: ${myPosition === 1 ? '#FFD700' : 'rgba(255,255,255,0.7)'}; font-size: 1.1rem; font-weight: bold;">
+                    You placed ${myPosition}${myPosition === 1 ? 'st' : myPosition === 2 ? 'nd' : myPosition === 3 ? 'rd' : 'th'}!
+                </div>
+            ` : ''}
+            ${isFirstPlayer && !dailySeed && !challengeRounds ? `
+                <button id="playAgainBtn" style="font-size: 1rem; padding: 12px 30px; margin-top: 15px;">PLAY AGAIN</button>
+            ` : ''}
         `;
 
+        finalResultsOverlay.querySelector('#playAgainBtn')?.addEventListener('click', () => socket.playAgain());
+
+        if (dailySeed) {
+            const me = players.find(p => p.name === myName);
+            showDailySummary(formatDailySummary(dailySeed, dailyDistances, me?.score ?? 0));
+        }
+        if (challengeRounds && challengeRounds.length > 0) {
+            showCompareButton(challengeRounds);
+        }
+
         finalResultsOverlay.style.display = 'block';
     }
 
+    /**
+     * Emoji summary of a daily challenge with a share (or copy) button
+     */
+    function showDailySummary(summary: string): void {
+        const container = document.createElement('div');
+        container.innerHTML = `
+            <pre style="color: white; font-size: 1.3rem; margin: 10px 0 20px 0; font-family: inherit;"></pre>
+            <button id="shareDailyBtn" style="font-size: 1rem; padding: 12px 30px;">SHARE RESULT</button>
+        `;
+        (container.querySelector('pre') as HTMLElement).textContent = summary;
+
+        const shareButton = container.querySelector('#shareDailyBtn') as HTMLButtonElement;
+        shareButton.addEventListener('click', async () => {
+            try {
+                if (navigator.share) {
+                    await navigator.share({ text: summary });
+                } else {
+                    await navigator.clipboard.writeText(summary);
+                    shareButton.textContent = 'COPIED!';
+                }
+            } catch (err) {
+                console.log('Sharing cancelled:', err);
+            }
+        });
+
+        finalResultsOverlay?.appendChild(container);
+    }
+
+    /**
+     * Button that swaps the final results for a round-by-round pin comparison
+     */
+    function showCompareButton(rounds: RevealData[]): void {
+        const button = document.createElement('button');
+        button.textContent = 'COMPARE PINS';
+        button.style.cssText = 'font-size: 1rem; padding: 12px 30px; margin-top: 15px;';
+        button.addEventListener('click', () => {
+            if (!globe || !finalResultsOverlay) return;
+            if (!challengeComparison) {
+                challengeComparison = new ChallengeComparison(globe);
+                challengeComparison.onClose(() => {
+                    if (finalResultsOverlay) finalResultsOverlay.style.display = 'block';
+                });
+            }
+            finalResultsOverlay.style.display = 'none';
+            challengeComparison.show(rounds, myName);
+        });
+        finalResultsOverlay?.appendChild(button);
+    }
+
     // Set up socket handlers
     socket.on('joined', (data) => {
         myName = data.name;
         isFirstPlayer = data.isFirst;
+        isSpectator = data.spectator === true;
+        players = data.players;
 
         const joinContainer = document.getElementById('joinScreen');
         if (joinContainer) {
             joinContainer.style.display = 'none';
         }
 
-        waitingScreen.show(myName, isFirstPlayer, data.players);
-        console.log(`Joined as ${myName} (isFirst: ${isFirstPlayer})`);
+        waitingScreen.setPacks(data.packs);
+
+        // A resumed session mid-game goes straight back to the globe (state-snapshot follows)
+        if (!(data.resumed && globe)) {
+            waitingScreen.show(myName, isFirstPlayer, data.players, isSpectator);
+        }
+        console.log(`${data.resumed ? 'Resumed' : 'Joined'} party ${data.code} as ${myName} (isFirst: ${isFirstPlayer}, spectator: ${isSpectator})`);
+    });
+
+    socket.on('resume-failed', () => {
+        console.log('Previous session expired - showing join screen');
+        joinScreen.enable();
     });
 
     socket.on('player-list', (data) => {
+        players = data.players;
+        waitingScreen.setTeams(isSpectator ? null : data.teams);
         const me = data.players.find(p => p.name === myName);
         if (me) {
             isFirstPlayer = me.isFirst;
         }
-        waitingScreen.show(myName, isFirstPlayer, data.players);
+        // Players joining or leaving mid-game don't bring back the lobby
+        if (!globe) {
+            waitingScreen.show(myName, isFirstPlayer, data.players, isSpectator);
+        }
+        updateAnswerProgress();
+        updateModerationBar();
     });
 
-    socket.on('game-start', () => {
-        console.log('Game starting!');
+    function enterGame(): void {
         waitingScreen.hide();
 
+        // Already in the game - this is a resumed session after a dropped connection
+        if (globe) return;
+
         const gameScreen = document.getElementById('gameScreen');
         if (gameScreen) {
             gameScreen.style.display = 'block';
@@ -286,7 +595,10 @@ window.addEventListener('DOMContentLoaded', async () => {
 
         globe = new EarthGlobe('renderCanvas', {
             disableSelectionBehavior: true,  // No country hover highlighting on party page
+            showPinUI: !isSpectator,         // Spectators only watch
             onReady: (globe) => {
+                if (isSpectator) return;
+
                 // Globe is now fully initialized, safe to wire up callbacks
                 console.log('Globe ready, wiring pin placement callback');
 
@@ -306,22 +618,116 @@ window.addEventListener('DOMContentLoaded', async () => {
         });
 
         (window as unknown as { earthGlobe: EarthGlobe }).earthGlobe = globe;
+        regionFocus = new RegionFocus(globe, true);
+
+        if (isSpectator) {
+            revealVisualizer = new RevealVisualizer(globe, globe.getScene(), globe.getCamera());
+            revealVisualizerReady = revealVisualizer.init();
+        }
 
         createQuestionOverlay();
         createResultsOverlay();
         createFinalResultsOverlay();
+        createModerationBar();
+    }
+
+    socket.on('game-start', (data) => {
+        console.log('Game starting!');
+        dailySeed = data.daily ?? null;
+        dailyDistances = [];
+        challengeRounds = data.challenge ? [] : null;
+        hintsEnabled = data.hints === true;
+        enterGame();
+        updateModerationBar();
+        regionFocus?.setRegion(data.continent ?? null);
+
+        // Playing again - the globe stays, last game's results go
+        if (finalResultsOverlay) finalResultsOverlay.style.display = 'none';
+        if (resultsOverlay) resultsOverlay.style.display = 'none';
+    });
+
+    // Rebuild the current round after joining late or resuming a session
+    socket.on('state-snapshot', (data) => {
+        console.log(`State snapshot: ${data.state}, round ${data.round}/${data.maxRounds}`);
+        if (data.state === 'lobby') return;
+
+        enterGame();
+        regionFocus?.setRegion(data.continent ?? null);
+        hintsEnabled = data.hints === true;
+        players = data.players;
+
+        if (data.state === 'answering' && data.question) {
+            showQuestion(data.question, data.deadline, data.serverTime);
+            answered = new Set(data.answered);
+            updateAnswerProgress();
+            if (data.paused) {
+                roundPaused = true;
+                countdown?.pause();
+                updateModerationBar();
+            }
+            if (data.answered.includes(myName)) {
+                hasAnswered = true;
+                showAnswerSubmitted();
+            }
+        } else if (data.state === 'reveal' && data.lastReveal) {
+            showResults(data.lastReveal.correct, data.lastReveal.results, data.lastReveal.scoring);
+        } else if (data.state === 'results') {
+            showFinalResults(data.players);
+        }
     });
 
     // Handle question from server
     socket.on('question', (data) => {
-        console.log(`Question: Where is ${data.city}?`);
-        showQuestion(data.city);
+        console.log(`Question: Where is ${data.question.text}?`);
+        showQuestion(data.question, data.deadline, data.serverTime);
+    });
+
+    // Someone answered - spectators track everyone, players look for their own answer
+    socket.on('player-answered', (data) => {
+        answered.add(data.playerName);
+        updateAnswerProgress();
+        if (data.playerName === myName) {
+            hasAnswered = true;
+            showAnswerSubmitted();
+        }
+    });
+
+    socket.on('hint', (data) => {
+        const hintText = questionOverlay?.querySelector('#hintText');
+        if (!hintText) return;
+        const line = document.createElement('div');
+        line.textContent = `${HINTS[data.hint].icon} ${data.text}`;
+        hintText.appendChild(line);
+
+        const button = questionOverlay?.querySelector(`button[data-hint="${data.hint}"]`) as HTMLButtonElement | null;
+        if (button) button.disabled = true;
+    });
+
+    socket.on('round-paused', () => {
+        roundPaused = true;
+        countdown?.pause();
+        updateModerationBar();
+    });
+
+    socket.on('round-resumed', (data) => {
+        roundPaused = false;
+        countdown?.start(data.deadline, data.serverTime);
+        updateModerationBar();
+    });
+
+    socket.on('kicked', (data) => {
+        alert(data.message);
+        window.location.reload(); // Back to the join screen - the session was cleared
     });
 
     // Handle results reveal
     socket.on('reveal', (data) => {
         console.log('Results revealed:', data);
-        showResults(data.correct, data.results);
+        if (dailySeed) {
+            dailyDistances.push(data.results.find(r => r.name === myName)?.distance ?? null);
+        }
+        challengeRounds?.push(data);
+        showResults(data.correct, data.results, data.scoring);
     });
 
     // Handle final results
@@ -336,12 +742,38 @@ window.addEventListener('DOMContentLoaded', async () => {
     });
 
     // Handle join
-    joinScreen.onJoin(async (name) => {
+    joinScreen.onJoin(async (name, code, spectator) => {
         joinScreen.disable();
 
         try {
             await socket.connect();
-            socket.join(name);
+            socket.join(name, code, spectator);
+        } catch (err) {
+            console.error('Failed to connect:', err);
+            alert('Could not connect to server. Is it running?');
+            joinScreen.enable();
+        }
+    });
+
+    joinScreen.onDaily(async (name, seed) => {
+        joinScreen.disable();
+
+        try {
+            await socket.connect();
+            socket.startDaily(name, seed);
+        } catch (err) {
+            console.error('Failed to connect:', err);
+            alert('Could not connect to server. Is it running?');
+            joinScreen.enable();
+        }
+    });
+
+    joinScreen.onChallenge(async (name, gameId) => {
+        joinScreen.disable();
+
+        try {
+            await socket.connect();
+            socket.startChallenge(name, gameId);
         } catch (err) {
             console.error('Failed to connect:', err);
             alert('Could not connect to server. Is it running?');
@@ -350,10 +782,26 @@ window.addEventListener('DOMContentLoaded', async () => {
     });
 
     // Handle start game
-    waitingScreen.onStart((maxRounds) => {
-        console.log(`Starting game with ${maxRounds} rounds...`);
-        socket.startGame(maxRounds);
+    waitingScreen.onStart((settings) => {
+        console.log(`Starting game with ${settings.maxRounds} rounds (time limit: ${settings.timeLimit || 'none'}, scoring: ${settings.scoring}, pack: ${settings.pack}, catch-up: ${settings.catchUp}, continent: ${settings.continent ?? 'any'}, difficulty: ${settings.difficulty ?? 'any'}, speed bonus: ${settings.speedBonus}, hints: ${settings.hints})...`);
+        socket.startGame(settings);
     });
 
+    waitingScreen.onTeamsChange((teamCount, teamScoring) => socket.setTeams(teamCount, teamScoring));
+    waitingScreen.onTeamChoice((team) => socket.chooseTeam(team));
+    waitingScreen.onKick((name) => socket.kickPlayer(name));
+
+    // Pick up a session from before a page reload
+    if (socket.hasSession()) {
+        joinScreen.disable();
+        try {
+            await socket.connect();
+            socket.resume();
+        } catch (err) {
+            console.error('Failed to resume session:', err);
+            joinScreen.enable();
+        }
+    }
+
     console.log('Client app initialized - JoinScreen ready');
 });
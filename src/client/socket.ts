@@ -4,29 +4,34 @@
  * Handles communication with the game server.
  */
 
-import { Player } from './WaitingScreen';
+import type { GameSettings } from './WaitingScreen';
 import { config } from '../config';
+import { PROTOCOL_VERSION, type ClientMessage, type ServerMessage, type MessageOfType, type RecordedPosition } from '../../shared/protocol';
+import type { TeamScoring } from '../../shared/teams';
+import type { HintType } from '../../shared/hints';
+import type { Reaction } from '../../shared/reactions';
+
+const SESSION_STORAGE_KEY = 'jordglobe-session';
+const RECONNECT_DELAY_MS = 2000;
 
 type MessageHandler = {
-    'joined': (data: { name: string; isFirst: boolean; players: Player[] }) => void;
-    'player-list': (data: { players: Player[] }) => void;
-    'game-start': () => void;
-    'question': (data: { city: string; country: string }) => void;
-    'reveal': (data: { correct: { name: string; country: string }; results: { name: string; distance: number; points: number }[] }) => void;
-    'final-results': (data: { players: Player[] }) => void;
-    'error': (data: { message: string }) => void;
+    [K in ServerMessage['type']]: (data: MessageOfType<ServerMessage, K>) => void;
 };
 
 export class GameSocket {
     private ws: WebSocket | null = null;
     private handlers: Partial<MessageHandler> = {};
     private serverUrl: string;
+    private sessionToken: string | null;
 
     constructor(serverUrl?: string) {
         // Use config for environment-aware WebSocket URL
         // In dev: ws://localhost:3003
         // In prod: wss://your-app.run.app
         this.serverUrl = serverUrl || config.websocketUrl;
+
+        // Session survives page reloads in the same tab, so a player can pick up where they left off
+        this.sessionToken = sessionStorage.getItem(SESSION_STORAGE_KEY);
     }
 
     connect(): Promise<void> {
@@ -45,10 +50,16 @@ export class GameSocket {
 
             this.ws.onmessage = (event) => {
                 try {
-                    const message = JSON.parse(event.data);
+                    const message = JSON.parse(event.data) as ServerMessage;
                     console.log('Received:', message);
 
-                    const handler = this.handlers[message.type as keyof MessageHandler];
+                    if (message.type === 'joined') {
+                        this.setSessionToken(message.token);
+                    } else if (message.type === 'resume-failed' || message.type === 'kicked') {
+                        this.clearSession();
+                    }
+
+                    const handler = this.handlers[message.type];
                     if (handler) {
                         (handler as Function)(message);
                     }
@@ -59,19 +70,57 @@ export class GameSocket {
 
             this.ws.onclose = () => {
                 console.log('Disconnected from server');
+
+                // Try to get our seat back while the server is still holding it
+                if (this.sessionToken) {
+                    setTimeout(() => this.reconnect(), RECONNECT_DELAY_MS);
+                }
             };
         });
     }
 
-    join(name: string): void {
-        this.send({ type: 'join', name });
+    /**
+     * Whether a previous session can be resumed (e.g., after a page reload)
+     */
+    hasSession(): boolean {
+        return this.sessionToken !== null;
+    }
+
+    clearSession(): void {
+        this.sessionToken = null;
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+
+    join(name: string, code: string, spectator = false): void {
+        this.send({ type: 'join', protocolVersion: PROTOCOL_VERSION, name, code, spectator });
+    }
+
+    startDaily(name: string, seed: string): void {
+        this.send({ type: 'start-daily', protocolVersion: PROTOCOL_VERSION, name, seed: seed || undefined });
+    }
+
+    startChallenge(name: string, gameId: string): void {
+        this.send({ type: 'start-challenge', protocolVersion: PROTOCOL_VERSION, name, gameId });
     }
 
-    startGame(maxRounds?: number): void {
-        this.send({ type: 'start-game', maxRounds });
+    resume(): void {
+        if (!this.sessionToken) return;
+        this.send({ type: 'resume', protocolVersion: PROTOCOL_VERSION, token: this.sessionToken });
     }
 
-    submitAnswer(lat: number, lon: number, positions?: { lat: number; lon: number; timestamp: number }[]): void {
+    startGame(settings: GameSettings): void {
+        this.send({ type: 'start-game', ...settings });
+    }
+
+    requestHint(hint: HintType): void {
+        this.send({ type: 'request-hint', hint });
+    }
+
+    sendReaction(emoji: Reaction): void {
+        this.send({ type: 'reaction', emoji });
+    }
+
+    submitAnswer(lat: number, lon: number, positions?: RecordedPosition[]): void {
         this.send({ type: 'submit-answer', lat, lon, positions });
     }
 
@@ -79,11 +128,63 @@ export class GameSocket {
         this.send({ type: 'next-round' });
     }
 
+    setTeams(teamCount: number, teamScoring: TeamScoring): void {
+        this.send({ type: 'set-teams', teamCount, teamScoring });
+    }
+
+    chooseTeam(team: number): void {
+        this.send({ type: 'choose-team', team });
+    }
+
+    // Moderation - the server only accepts these from the party host
+
+    kickPlayer(name: string): void {
+        this.send({ type: 'kick-player', name });
+    }
+
+    pauseRound(): void {
+        this.send({ type: 'pause-round' });
+    }
+
+    resumeRound(): void {
+        this.send({ type: 'resume-round' });
+    }
+
+    skipQuestion(): void {
+        this.send({ type: 'skip-question' });
+    }
+
+    endGame(): void {
+        this.send({ type: 'end-game' });
+    }
+
+    playAgain(): void {
+        this.send({ type: 'play-again' });
+    }
+
     on<K extends keyof MessageHandler>(event: K, handler: MessageHandler[K]): void {
         this.handlers[event] = handler;
     }
 
-    private send(message: object): void {
+    private async reconnect(): Promise<void> {
+        if (!this.sessionToken) return;
+
+        try {
+            console.log('Reconnecting to resume session...');
+            await this.connect();
+            this.resume();
+        } catch (err) {
+            // onclose fires after a failed attempt and schedules the next one
+            console.error('Reconnect failed:', err);
+        }
+    }
+
+    private setSessionToken(token: string): void {
+        this.sessionToken = token;
+        sessionStorage.setItem(SESSION_STORAGE_KEY, token);
+    }
+
+    private send(message: ClientMessage): void {
         if (this.ws && this.ws.readyState === WebSocket.OPEN) {
             this.ws.send(JSON.stringify(message));
         }
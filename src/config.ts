@@ -8,6 +8,7 @@ export interface EnvironmentConfig {
     isProduction: boolean;
     websocketUrl: string;
     baseUrl: string;
+    apiUrl: string;      // Game history API
 }
 
 /**
@@ -24,22 +25,26 @@ function detectEnvironment(): EnvironmentConfig {
 
     let websocketUrl: string;
     let baseUrl: string;
+    let apiUrl: string;
 
     if (isDevelopment) {
         // Development: separate WebSocket server on port 3003
         websocketUrl = `ws://${hostname}:3003`;
         baseUrl = `http://${hostname}:${port || 3000}`;
+        apiUrl = `http://${hostname}:3003`;
     } else {
         // Production: same server, WebSocket on same port (8080), use wss://
         websocketUrl = `wss://${hostname}`;
         baseUrl = `https://${hostname}`;
+        apiUrl = baseUrl;
     }
 
     return {
         isDevelopment,
         isProduction,
         websocketUrl,
-        baseUrl
+        baseUrl,
+        apiUrl
     };
 }
 
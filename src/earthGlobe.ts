@@ -42,6 +42,7 @@ import { CountryPicker, calculateBoundingBox, cartesianToLatLon, type CountryPol
 import { CountrySelectionBehavior } from './countrySelectionBehavior';
 import { PinManager } from './pinManager';
 import { CountryLabelUI } from './countryLabelUI';
+import { getRegionOfContinent, type Region } from '../shared/geo';
 
 // Import shaders
 import animatedVertexShader from './shaders/animated.vertex.glsl?raw';
@@ -97,12 +98,14 @@ interface CountryData {
     index: number;
     polygonIndices: number[];    // Indices into polygonsData array
     neighbourCountries: NeighborInfo[];
+    region: Region | null;       // Continent, null for territories the dataset gives none
 }
 
 interface CountryJSON {
     name_en: string;
     iso2: string;
     paths: string;
+    continent?: string;
     holes?: string[][];  // Array of hole ISO2 codes per polygon (enclaves)
     lakes?: number[][];  // For each polygon, list of polygon indices that are lakes inside it
     skipHole?: boolean;  // If true, don't create a hole for this enclave (too small)
@@ -177,6 +180,8 @@ export class EarthGlobe {
     private bossPinTemplate: AbstractMesh | null = null;
     private countryMeshes: Mesh[] = [];
     private animationWasEnabled: boolean = false;
+    private ready: Promise<void>;
+    private resolveReady!: () => void;
 
     constructor(canvasId: string = 'renderCanvas', options?: EarthGlobeOptions) {
         this.options = options || {};
@@ -227,6 +232,7 @@ export class EarthGlobe {
         this.sceneInstrumentation = new SceneInstrumentation(this.scene);
         this.sceneInstrumentation.captureFrameTime = true;
 
+        this.ready = new Promise(resolve => this.resolveReady = resolve);
         this.init();
     }
 
@@ -366,6 +372,29 @@ export class EarthGlobe {
         return this.countriesData.find(c => c.iso2 === iso2);
     }
 
+    /**
+     * Resolves once the countries are loaded - the same moment as the onReady option
+     */
+    public whenReady(): Promise<void> {
+        return this.ready;
+    }
+
+    /**
+     * Get the continent of a country
+     * @param countryIndex The index of the country in countriesData
+     * @returns The region, or null for territories without one
+     */
+    public getCountryRegion(countryIndex: number): Region | null {
+        return this.countriesData[countryIndex]?.region ?? null;
+    }
+
+    /**
+     * Get the number of countries (valid country indices are 0 to count - 1)
+     */
+    public getCountryCount(): number {
+        return this.countriesData.length;
+    }
+
     /**
      * Set the altitude (extrusion) value for a country
      * @param countryIndex The index of the country in countriesData
@@ -551,6 +580,7 @@ export class EarthGlobe {
         if (this.options.onReady) {
             this.options.onReady(this);
         }
+        this.resolveReady();
 
         // Hide loading screen after a short delay
         setTimeout(() => {
@@ -1350,7 +1380,8 @@ export class EarthGlobe {
                             iso2: country.iso2,
                             index: this.countriesData.length,
                             polygonIndices: polygonIndices,
-                            neighbourCountries: []
+                            neighbourCountries: [],
+                            region: getRegionOfContinent(country.continent)
                         };
                         this.countriesData.push(countryData);
 
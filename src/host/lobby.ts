@@ -1,35 +1,184 @@
 /**
  * Host Lobby - Shows QR code and player list, then game with globe + leaderboard
+ *
+ * host.html?replay lists past games; host.html?replay=<id> replays one round by round
+ * host.html?flags marks answers the server found implausible
+ * Final results offer a challenge link - the party page plays the same questions against everyone's answers
  */
 
 import QRCode from 'qrcode';
 import { EarthGlobe } from '../earthGlobe';
 import { RevealVisualizer } from './revealVisualizer';
+import { RegionFocus } from '../regionFocus';
 import { Confetti } from '../confetti';
 import { config } from '../config';
+import { RoundCountdown } from '../roundCountdown';
+import { SCORING_MODELS, formatAnswerTime, formatResultDistance, type ScoringModel } from '../../shared/scoring';
+import { getTeamColor, getTeamName } from '../../shared/teams';
+import { BOT_DIFFICULTIES, type BotDifficulty } from '../../shared/bots';
+import { formatHintIcons } from '../../shared/hints';
+import type { Region } from '../../shared/geo';
+import type { GameRecord, GameStateData, GameSummary, QuestionPrompt, RevealData, RoundResult, TeamSettings, TeamStanding } from '../../shared/types';
+import { PROTOCOL_VERSION, type ClientMessage, type HostConnectMessage, type ServerMessage } from '../../shared/protocol';
 
 interface Player {
     name: string;
     isFirst: boolean;
     score?: number;
+    team?: number;
+    bot?: BotDifficulty;
+    away?: boolean;         // Phone stopped responding - doesn't hold up the round
     hasAnswered?: boolean;
+    flags?: string[];       // Why this round's answer looks implausible
 }
 
+/** A round result with a pin on the globe (the player answered in time) */
+type AnsweredResult = RoundResult & { lat: number; lon: number; distance: number };
+
+// Replay pacing
+const REPLAY_QUESTION_MS = 3000;
+const REPLAY_RESULTS_MS = 5000;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
 class HostLobby {
     private ws: WebSocket | null = null;
+    private roomCode: string | null = null;
+    private hostToken: string | null = null;  // Lets this screen back into its room after a reconnect
+    private joinUrl: string | null = null;
     private players: Player[] = [];
+    private spectators: string[] = [];
+    private teamStandings: TeamStanding[] | null = null;  // Team mode only
+    private roundPaused = false;
+    private showFlags = new URLSearchParams(window.location.search).has('flags');
+    private moderationControls: HTMLElement | null = null;
     private globe: EarthGlobe | null = null;
     private revealVisualizer: RevealVisualizer | null = null;
+    private regionFocus: RegionFocus | null = null;
     private questionOverlay: HTMLElement | null = null;
     private resultsOverlay: HTMLElement | null = null;
     private finalResultsOverlay: HTMLElement | null = null;
     private confetti: Confetti | null = null;
+    private countdown: RoundCountdown | null = null;
 
     constructor() {
-        this.connectToServer();
+        const replayId = new URLSearchParams(window.location.search).get('replay');
+        if (replayId === null) {
+            this.connectToServer();
+            this.setupKickButtons();
+            this.createBotControls();
+        } else if (replayId === '') {
+            this.showReplayList();
+        } else {
+            this.replayGame(replayId);
+        }
+    }
+
+    /**
+     * Swap the lobby's QR code and player list for a list of past games
+     */
+    private async showReplayList(): Promise<void> {
+        const mainContent = document.querySelector('.main-content') as HTMLElement;
+        if (mainContent) mainContent.style.display = 'none';
+
+        const subtitle = document.querySelector('.subtitle');
+        if (subtitle) subtitle.textContent = 'Replay a past game';
+
+        const historyLink = document.getElementById('historyLink') as HTMLAnchorElement;
+        if (historyLink) {
+            historyLink.textContent = 'Back to the lobby';
+            historyLink.href = window.location.pathname;
+        }
+
+        const section = document.getElementById('replaySection');
+        const listElement = document.getElementById('replayList');
+        if (!section || !listElement) return;
+        section.style.display = 'block';
+
+        let games: GameSummary[];
+        try {
+            const response = await fetch(`${config.apiUrl}/api/games`);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            games = await response.json();
+        } catch (err) {
+            console.error('Failed to load game history:', err);
+            listElement.innerHTML = '<li class="no-players">Could not load past games</li>';
+            return;
+        }
+
+        if (games.length === 0) {
+            listElement.innerHTML = '<li class="no-players">No finished games yet</li>';
+            return;
+        }
+
+        listElement.innerHTML = games.map(game => `
+            <li>
+                <a href="?replay=${encodeURIComponent(game.id)}">
+                    <span>${game.players[0] ? `👑 ${game.players[0].name}` : 'No players'} · ${game.packName}</span>
+                    <span class="replay-meta">${game.roundCount} rounds · ${new Date(game.finishedAt).toLocaleString()}</span>
+                </a>
+            </li>
+        `).join('');
+    }
+
+    /**
+     * Play back a stored game through the normal question/reveal screens
+     */
+    private async replayGame(id: string): Promise<void> {
+        let record: GameRecord;
+        try {
+            const response = await fetch(`${config.apiUrl}/api/games/${encodeURIComponent(id)}`);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            record = await response.json();
+        } catch (err) {
+            console.error('Failed to load game:', err);
+            const messageElement = document.getElementById('waitingMessage');
+            if (messageElement) messageElement.textContent = 'Could not load that game.';
+            return;
+        }
+
+        console.log(`Replaying game ${record.id} from room ${record.code}`);
+        this.players = record.players;
+        await this.startGame();
+
+        // Scores are rebuilt round by round so the leaderboard moves as it did live
+        const totals = new Map<string, number>();
+        for (const round of record.rounds) {
+            const { correct } = round;
+            this.showQuestion({
+                id: `${record.id}-${round.round}`,
+                text: correct.name,
+                country: correct.country,
+                mode: correct.mode,
+                countryCode: correct.countryCode
+            }, null, Date.now());
+            round.results.filter(r => !r.missed).forEach(r => this.markPlayerAnswered(r.name));
+            await wait(REPLAY_QUESTION_MS);
+
+            round.results.forEach(r => totals.set(r.name, (totals.get(r.name) ?? 0) + r.points));
+            const standings = this.players.map(p => ({ ...p, score: totals.get(p.name) ?? 0 }));
+            if (round.teamResults && record.teamStandings) {
+                this.teamStandings = round.teamResults
+                    .map(r => ({
+                        team: r.team,
+                        score: r.totalScore,
+                        members: record.teamStandings!.find(t => t.team === r.team)?.members ?? []
+                    }))
+                    .sort((a, b) => b.score - a.score);
+            }
+            await this.showResults(correct, round.results, round.scoring, standings);
+            await wait(REPLAY_RESULTS_MS);
+        }
+
+        this.showFinalResults(record.players, record.teamStandings, record.id);
     }
 
     private async generateQRCode(joinUrl: string): Promise<void> {
+        const codeElement = document.getElementById('roomCode');
+        if (codeElement && this.roomCode) {
+            codeElement.textContent = this.roomCode;
+        }
+
         const urlElement = document.getElementById('joinUrl');
         if (urlElement) {
             urlElement.textContent = joinUrl;
@@ -61,20 +210,28 @@ class HostLobby {
         this.ws.onopen = () => {
             console.log('Connected to server');
             // Send hostname so server can generate correct join URL
+            // After a reconnect, ask for the same room so players don't need a new code
             const hostname = window.location.hostname;
-            this.ws?.send(JSON.stringify({
+            const handshake: HostConnectMessage = {
                 type: 'host-connect',
-                host: hostname
-            }));
+                protocolVersion: PROTOCOL_VERSION,
+                host: hostname,
+                code: this.roomCode,
+                hostToken: this.hostToken
+            };
+            this.ws?.send(JSON.stringify(handshake));
         };
 
         this.ws.onmessage = (event) => {
             try {
-                const message = JSON.parse(event.data);
+                const message = JSON.parse(event.data) as ServerMessage;
                 console.log('Received:', message);
 
                 switch (message.type) {
                     case 'host-info':
+                        this.roomCode = message.code;
+                        this.hostToken = message.hostToken;
+
                         // Handle both old format (dev server) and new format (production server)
                         let joinUrl: string;
                         if (message.joinUrl) {
@@ -82,44 +239,90 @@ class HostLobby {
                             joinUrl = message.joinUrl;
                         } else if (message.localIP && message.webPort) {
                             // Old format (dev server) - for backward compatibility
-                            joinUrl = `http://${message.localIP}:${message.webPort}/party`;
+                            joinUrl = `http://${message.localIP}:${message.webPort}/party?code=${message.code}`;
                         } else {
                             console.error('Invalid host-info message - missing joinUrl or localIP/webPort');
                             break;
                         }
 
+                        this.joinUrl = joinUrl;
                         this.generateQRCode(joinUrl);
                         this.players = message.players;
+                        this.spectators = message.spectators;
                         this.updateLobbyPlayerList();
                         this.updateWaitingMessage();
                         break;
 
-                    case 'player-list':
-                        this.players = message.players;
+                    case 'player-list': {
+                        // Players coming and going mid-round keep their answer ticks
+                        const previous = new Map(this.players.map(p => [p.name, p]));
+                        this.players = message.players.map(p => ({
+                            ...p,
+                            hasAnswered: previous.get(p.name)?.hasAnswered,
+                            flags: previous.get(p.name)?.flags
+                        }));
+                        this.spectators = message.spectators;
                         this.updateLobbyPlayerList();
                         this.updateWaitingMessage();
                         this.updateLeaderboard();
+                        this.updateAnswerStatus();
+                        break;
+                    }
+
+                    case 'state-snapshot':
+                        this.restoreFromSnapshot(message);
                         break;
 
                     case 'game-start':
                         console.log('Game starting!');
-                        this.startGame();
+                        this.teamStandings = message.teams ? this.getInitialTeamStandings(message.teams) : null;
+                        this.startGame(message.continent ?? null);
                         break;
 
                     case 'question':
-                        this.showQuestion(message.city);
+                        this.showQuestion(message.question, message.deadline, message.serverTime);
                         break;
 
                     case 'player-answered':
                         this.markPlayerAnswered(message.playerName);
                         break;
 
+                    case 'reaction':
+                        this.showReaction(message.playerName, message.emoji);
+                        break;
+
+                    case 'answer-flagged':
+                        console.warn(`Implausible answer from ${message.playerName}:`, message.reasons.join('; '));
+                        this.flagAnswer(message.playerName, message.reasons);
+                        break;
+
+                    case 'round-paused':
+                        this.roundPaused = true;
+                        this.countdown?.pause();
+                        this.updateModerationControls();
+                        break;
+
+                    case 'round-resumed':
+                        this.roundPaused = false;
+                        this.countdown?.start(message.deadline, message.serverTime);
+                        this.updateModerationControls();
+                        break;
+
                     case 'reveal':
-                        this.showResults(message.correct, message.results, message.players);
+                        this.teamStandings = message.teamStandings ?? null;
+                        this.showResults(message.correct, message.results, message.scoring, message.players);
                         break;
 
                     case 'final-results':
-                        this.showFinalResults(message.players);
+                        this.showFinalResults(message.players, message.teamStandings, message.gameId);
+                        break;
+
+                    case 'error':
+                        console.error('Server error:', message.code, message.message);
+                        if (message.code === 'protocol-mismatch') {
+                            const messageElement = document.getElementById('waitingMessage');
+                            if (messageElement) messageElement.textContent = message.message;
+                        }
                         break;
                 }
             } catch (err) {
@@ -134,7 +337,21 @@ class HostLobby {
         };
     }
 
-    private async startGame(): Promise<void> {
+    /**
+     * @param continent Region the game is limited to, null for the whole world
+     */
+    private async startGame(continent: Region | null = null): Promise<void> {
+        // Playing again - the globe stays, only last game's results are cleared
+        if (this.globe) {
+            if (this.finalResultsOverlay) this.finalResultsOverlay.style.display = 'none';
+            if (this.resultsOverlay) this.resultsOverlay.style.display = 'none';
+            this.revealVisualizer?.hideReveal();
+            this.regionFocus?.setRegion(continent);
+            this.players = this.players.map(p => ({ ...p, score: 0 }));
+            this.updateLeaderboard();
+            return;
+        }
+
         const lobbyScreen = document.getElementById('lobbyScreen');
         const gameScreen = document.getElementById('gameScreen');
 
@@ -152,13 +369,133 @@ class HostLobby {
         );
         await this.revealVisualizer.init();
 
+        this.regionFocus = new RegionFocus(this.globe);
+        this.regionFocus.setRegion(continent);
+
         this.createQuestionOverlay();
         this.createResultsOverlay();
         this.createFinalResultsOverlay();
+        if (this.ws) this.createModerationControls(); // Not when replaying
         this.players = this.players.map(p => ({ ...p, score: 0 }));
         this.updateLeaderboard();
     }
 
+    /**
+     * Rebuild the screen from a server snapshot (after a reconnect or page reload mid-game)
+     */
+    private async restoreFromSnapshot(snapshot: GameStateData): Promise<void> {
+        console.log(`Restoring state: ${snapshot.state}, round ${snapshot.round}/${snapshot.maxRounds}`);
+        this.players = snapshot.players;
+        this.updateLobbyPlayerList();
+        this.updateWaitingMessage();
+
+        if (snapshot.state === 'lobby') return;
+
+        if (!this.globe) {
+            await this.startGame(snapshot.continent ?? null);
+        }
+        this.regionFocus?.setRegion(snapshot.continent ?? null);
+        this.players = snapshot.players;
+        this.teamStandings = snapshot.teamStandings ?? null;
+        this.updateLeaderboard();
+
+        if (snapshot.state === 'answering' && snapshot.question) {
+            this.showQuestion(snapshot.question, snapshot.deadline, snapshot.serverTime);
+            snapshot.answered.forEach(name => this.markPlayerAnswered(name));
+            if (snapshot.paused) {
+                this.roundPaused = true;
+                this.countdown?.pause();
+                this.updateModerationControls();
+            }
+        } else if (snapshot.state === 'reveal' && snapshot.lastReveal) {
+            await this.showResults(snapshot.lastReveal.correct, snapshot.lastReveal.results, snapshot.lastReveal.scoring, snapshot.players);
+        } else if (snapshot.state === 'results') {
+            this.showFinalResults(snapshot.players, snapshot.teamStandings);
+        }
+    }
+
+    private send(message: ClientMessage): void {
+        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+            this.ws.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * Pause, skip and end buttons over the globe
+     */
+    private createModerationControls(): void {
+        this.moderationControls = document.createElement('div');
+        this.moderationControls.className = 'moderation-controls';
+        this.moderationControls.innerHTML = `
+            <button id="pauseRoundBtn">⏸ Pause</button>
+            <button id="skipQuestionBtn">⏭ Skip question</button>
+            <button id="endGameBtn">⏹ End game</button>
+        `;
+
+        this.moderationControls.querySelector('#pauseRoundBtn')?.addEventListener('click', () => {
+            this.send({ type: this.roundPaused ? 'resume-round' : 'pause-round' });
+        });
+        this.moderationControls.querySelector('#skipQuestionBtn')?.addEventListener('click', () => {
+            this.send({ type: 'skip-question' });
+        });
+        this.moderationControls.querySelector('#endGameBtn')?.addEventListener('click', () => {
+            if (confirm('End the game now and show final results?')) {
+                this.send({ type: 'end-game' });
+            }
+        });
+
+        document.querySelector('.globe-container')?.appendChild(this.moderationControls);
+    }
+
+    private updateModerationControls(): void {
+        const pauseButton = this.moderationControls?.querySelector('#pauseRoundBtn');
+        if (pauseButton) pauseButton.textContent = this.roundPaused ? '▶ Resume' : '⏸ Pause';
+    }
+
+    /**
+     * Kick buttons are rendered into the player lists, so listen on the lists themselves
+     */
+    private setupKickButtons(): void {
+        ['lobbyPlayerList', 'lobbySpectatorList', 'leaderboard'].forEach(id => {
+            document.getElementById(id)?.addEventListener('click', (event) => {
+                const button = (event.target as HTMLElement).closest('[data-kick]') as HTMLElement | null;
+                const name = button?.dataset.kick;
+                if (name && confirm(`Remove ${name} from the party?`)) {
+                    this.send({ type: 'kick-player', name });
+                }
+            });
+        });
+    }
+
+    /**
+     * "Add bot" buttons under the lobby's player list, one per difficulty
+     */
+    private createBotControls(): void {
+        const container = document.getElementById('botControls');
+        if (!container) return;
+
+        const difficulties = Object.entries(BOT_DIFFICULTIES) as [BotDifficulty, typeof BOT_DIFFICULTIES[BotDifficulty]][];
+        container.innerHTML = `<span>Add bot:</span>` + difficulties.map(([difficulty, { label, description }]) =>
+            `<button data-bot="${difficulty}" title="${description}">🤖 ${label}</button>`
+        ).join('');
+
+        container.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest('[data-bot]') as HTMLElement | null;
+            if (button) {
+                this.send({ type: 'add-bot', difficulty: button.dataset.bot as BotDifficulty });
+            }
+        });
+    }
+
+    /** Everyone on 0 points, for the leaderboard before the first reveal */
+    private getInitialTeamStandings(teams: TeamSettings): TeamStanding[] {
+        return Array.from({ length: teams.count }, (_, team) => ({
+            team,
+            score: 0,
+            members: this.players.filter(p => p.team === team).map(p => p.name)
+        }));
+    }
+
     private createResultsOverlay(): void {
         this.resultsOverlay = document.createElement('div');
         this.resultsOverlay.id = 'resultsOverlay';
@@ -180,10 +517,11 @@ class HostLobby {
         document.querySelector('.globe-container')?.appendChild(this.resultsOverlay);
     }
 
-    private async showResults(correct: { name: string; country: string; lat: number; lon: number }, results: { name: string; distance: number; points: number; lat: number; lon: number }[], players?: Player[]): Promise<void> {
+    private async showResults(correct: RevealData['correct'], results: RoundResult[], scoring: ScoringModel, players?: Player[]): Promise<void> {
         if (!this.resultsOverlay) return;
 
         // Hide question overlay
+        this.countdown?.stop();
         if (this.questionOverlay) {
             this.questionOverlay.style.display = 'none';
         }
@@ -196,9 +534,10 @@ class HostLobby {
 
         // Show visual reveal (pins + arcs) and wait for animation + delay
         if (this.revealVisualizer) {
+            // Only players who answered in time have a pin to show
             await this.revealVisualizer.showReveal({
                 correct,
-                results
+                results: results.filter((r): r is AnsweredResult => r.lat !== null && r.lon !== null && r.distance !== null)
             });
         }
 
@@ -206,8 +545,9 @@ class HostLobby {
         this.resultsOverlay.innerHTML = `
             <div style="color: rgba(255,255,255,0.7); font-size: 1rem; margin-bottom: 5px;">The answer was</div>
             <div style="color: #e94560; font-size: 2rem; font-weight: bold; margin-bottom: 25px;">
-                ${correct.name}, ${correct.country}
+                ${correct.name}${correct.country ? `, ${correct.country}` : ''}
             </div>
+            <div style="color: rgba(255,255,255,0.5); font-size: 0.9rem; margin-bottom: 10px;">Scoring: ${SCORING_MODELS[scoring].label}</div>
             <div style="text-align: left;">
                 ${results.map((r, i) => `
                     <div style="
@@ -231,8 +571,9 @@ class HostLobby {
                             font-weight: bold;
                             color: white;
                         ">${i + 1}</span>
-                        <span style="flex: 1; color: white; font-size: 1.1rem;">${r.name}</span>
-                        <span style="color: rgba(255,255,255,0.5); margin-right: 15px;">${r.distance.toLocaleString()} km</span>
+                        <span style="flex: 1; color: white; font-size: 1.1rem;">${r.name}${formatHintIcons(r.hints)}${scoring === 'country' && r.inCorrectCountry ? ' 🎯' : ''}</span>
+                        <span style="color: rgba(255,255,255,0.5); margin-right: 15px;">${formatResultDistance(r.distance, correct.mode)}</span>
+                        <span style="color: rgba(255,255,255,0.5); margin-right: 15px;">${formatAnswerTime(r.answerTime, r.speedBonus)}</span>
                         <span style="color: ${r.points > 0 ? '#4CAF50' : 'rgba(255,255,255,0.5)'}; font-weight: bold;">+${r.points}p</span>
                     </div>
                 `).join('')}
@@ -260,8 +601,11 @@ class HostLobby {
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
         `;
         this.questionOverlay.innerHTML = `
-            <div style="color: rgba(255,255,255,0.7); font-size: 1rem; margin-bottom: 10px;">Where is...</div>
+            <div id="questionCategory" style="color: rgba(255,255,255,0.5); font-size: 0.85rem; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 5px;"></div>
+            <div id="questionPrompt" style="color: rgba(255,255,255,0.7); font-size: 1rem; margin-bottom: 10px;">Where is...</div>
             <div id="cityName" style="color: #e94560; font-size: 2.5rem; font-weight: bold;"></div>
+            <img id="questionImage" alt="" style="max-width: 360px; max-height: 220px; border-radius: 10px; margin: 15px auto 0 auto; display: none;" />
+            <div id="roundTimer" style="font-size: 1.8rem; font-weight: bold; margin-top: 10px;"></div>
             <div id="answerStatus" style="margin-top: 20px; display: flex; gap: 15px; justify-content: center; flex-wrap: wrap;"></div>
         `;
 
@@ -281,9 +625,11 @@ class HostLobby {
         `;
         document.head.appendChild(style);
         document.querySelector('.globe-container')?.appendChild(this.questionOverlay);
+
+        this.countdown = new RoundCountdown(this.questionOverlay.querySelector('#roundTimer') as HTMLElement);
     }
 
-    private showQuestion(city: string): void {
+    private showQuestion(question: QuestionPrompt, deadline: number | null, serverTime: number): void {
         if (!this.questionOverlay) return;
 
         // Hide results overlay if visible
@@ -295,12 +641,30 @@ class HostLobby {
         if (this.revealVisualizer) {
             this.revealVisualizer.hideReveal();
         }
+        this.regionFocus?.frame();
+
+        this.roundPaused = false;
+        this.updateModerationControls();
+
+        const promptEl = this.questionOverlay.querySelector('#questionPrompt');
+        if (promptEl) promptEl.textContent = question.mode === 'country' ? 'Find the country...' : 'Where is...';
 
         const cityEl = this.questionOverlay.querySelector('#cityName');
-        if (cityEl) cityEl.textContent = city;
+        if (cityEl) cityEl.textContent = question.text;
+
+        const categoryEl = this.questionOverlay.querySelector('#questionCategory') as HTMLElement;
+        if (categoryEl) categoryEl.textContent = question.category ?? '';
+
+        const imageEl = this.questionOverlay.querySelector('#questionImage') as HTMLImageElement;
+        if (imageEl) {
+            imageEl.src = question.imageUrl ?? '';
+            imageEl.style.display = question.imageUrl ? 'block' : 'none';
+        }
+
+        this.countdown?.start(deadline, serverTime);
 
         // Reset all players' answer status
-        this.players = this.players.map(p => ({ ...p, hasAnswered: false }));
+        this.players = this.players.map(p => ({ ...p, hasAnswered: false, flags: undefined }));
         this.updateAnswerStatus();
 
         this.questionOverlay.style.display = 'block';
@@ -321,14 +685,56 @@ class HostLobby {
                 border: 1px solid ${p.hasAnswered ? '#4CAF50' : 'transparent'};
             ">
                 <span style="color: white;">${p.name}</span>
+                ${p.flags ? `<span title="${p.flags.join('\n')}" style="cursor: help;">⚠️</span>` : ''}
                 ${p.hasAnswered
                     ? '<span style="color: #4CAF50; font-size: 1.2rem;">✓</span>'
+                    : p.away
+                    ? '<span title="Away" style="font-size: 1.2rem;">💤</span>'
                     : '<span class="waiting-dots" style="color: rgba(255,255,255,0.5);"><span>.</span><span>.</span><span>.</span></span>'
                 }
             </div>
         `).join('');
     }
 
+    private flagAnswer(playerName: string, reasons: string[]): void {
+        const player = this.players.find(p => p.name === playerName);
+        if (player && this.showFlags) {
+            player.flags = reasons;
+            this.updateAnswerStatus();
+        }
+    }
+
+    /**
+     * Float a reaction up from the sender's leaderboard row (their team's in team mode)
+     * and from their pin when it's on screen
+     */
+    private showReaction(playerName: string, emoji: string): void {
+        const team = this.players.find(p => p.name === playerName)?.team;
+        const rows = Array.from(document.querySelectorAll<HTMLElement>('#leaderboard li'));
+        const row = this.teamStandings
+            ? rows.find(li => li.dataset.team === String(team))
+            : rows.find(li => li.dataset.player === playerName);
+        if (row) {
+            this.floatReaction(row, emoji, row.offsetWidth - 30, 0);
+        }
+
+        const pin = this.revealVisualizer?.getPinScreenPosition(playerName);
+        const globeContainer = document.querySelector('.globe-container') as HTMLElement | null;
+        if (pin && globeContainer) {
+            this.floatReaction(globeContainer, emoji, pin.x, pin.y);
+        }
+    }
+
+    private floatReaction(parent: HTMLElement, emoji: string, x: number, y: number): void {
+        const element = document.createElement('span');
+        element.className = 'reaction-float';
+        element.textContent = emoji;
+        element.style.left = `${x}px`;
+        element.style.top = `${y}px`;
+        element.addEventListener('animationend', () => element.remove());
+        parent.appendChild(element);
+    }
+
     private markPlayerAnswered(playerName: string): void {
         const player = this.players.find(p => p.name === playerName);
         if (player) {
@@ -338,6 +744,7 @@ class HostLobby {
     }
 
     private updateLobbyPlayerList(): void {
+        this.updateLobbySpectatorList();
         const listElement = document.getElementById('lobbyPlayerList');
         if (!listElement) return;
 
@@ -347,14 +754,29 @@ class HostLobby {
         }
 
         listElement.innerHTML = this.players.map((player, index) => `
-            <li class="${player.isFirst ? 'host' : ''}">
+            <li class="${player.isFirst ? 'host' : ''} ${player.away ? 'away' : ''}">
                 <span class="player-number">${index + 1}</span>
                 <span>${player.name}</span>
                 ${player.isFirst ? '<span class="host-badge">Host</span>' : ''}
+                ${player.bot ? `<span class="bot-badge">🤖 ${BOT_DIFFICULTIES[player.bot].label}</span>` : ''}
+                ${player.away ? '<span class="away-badge">Away</span>' : ''}
+                ${player.team !== undefined ? `<span class="team-badge" style="background: ${getTeamColor(player.team)};">${getTeamName(player.team)}</span>` : ''}
+                <button class="kick-button" data-kick="${player.name}" title="Remove ${player.name}">✕</button>
             </li>
         `).join('');
     }
 
+    private updateLobbySpectatorList(): void {
+        const section = document.getElementById('spectatorSection');
+        const listElement = document.getElementById('lobbySpectatorList');
+        if (!section || !listElement) return;
+
+        section.style.display = this.spectators.length > 0 ? 'block' : 'none';
+        listElement.innerHTML = this.spectators.map(name => `
+            <li>👀 ${name} <button class="kick-button" data-kick="${name}" title="Remove ${name}">✕</button></li>
+        `).join('');
+    }
+
     private updateWaitingMessage(): void {
         const messageElement = document.getElementById('waitingMessage');
         if (!messageElement) return;
@@ -374,13 +796,28 @@ class HostLobby {
         const listElement = document.getElementById('leaderboard');
         if (!listElement) return;
 
+        if (this.teamStandings) {
+            listElement.innerHTML = this.teamStandings.map((standing, index) => `
+                <li data-team="${standing.team}" style="border-left: 6px solid ${getTeamColor(standing.team)};">
+                    <span class="leaderboard-rank">${index + 1}</span>
+                    <span class="leaderboard-name">
+                        ${getTeamName(standing.team)}
+                        <span class="leaderboard-members">${standing.members.join(', ')}</span>
+                    </span>
+                    <span class="leaderboard-score">${standing.score}</span>
+                </li>
+            `).join('');
+            return;
+        }
+
         const sortedPlayers = [...this.players].sort((a, b) => (b.score || 0) - (a.score || 0));
 
         listElement.innerHTML = sortedPlayers.map((player, index) => `
-            <li>
+            <li data-player="${player.name}" class="${player.away ? 'away' : ''}">
                 <span class="leaderboard-rank">${index + 1}</span>
-                <span class="leaderboard-name">${player.name}</span>
+                <span class="leaderboard-name">${player.name}${player.away ? ' 💤' : ''}</span>
                 <span class="leaderboard-score">${player.score || 0}</span>
+                ${this.ws ? `<button class="kick-button" data-kick="${player.name}" title="Remove ${player.name}">✕</button>` : ''}
             </li>
         `).join('');
     }
@@ -406,7 +843,10 @@ class HostLobby {
         document.querySelector('.globe-container')?.appendChild(this.finalResultsOverlay);
     }
 
-    private showFinalResults(players: Player[]): void {
+    /**
+     * @param gameId Id of the stored game, for the challenge link
+     */
+    private showFinalResults(players: Player[], teamStandings?: TeamStanding[], gameId?: string): void {
         if (!this.finalResultsOverlay) return;
 
         // Hide other overlays
@@ -415,8 +855,23 @@ class HostLobby {
 
         // Update players
         this.players = players;
+        this.teamStandings = teamStandings ?? null;
         this.updateLeaderboard();
 
+        if (teamStandings && teamStandings.length > 0) {
+            this.showFinalTeamResults(teamStandings);
+        } else {
+            this.showFinalPlayerResults(players);
+        }
+
+        if (gameId) this.addChallengeLink(gameId);
+        if (this.ws) this.addPlayAgainButton(); // Not when replaying
+        this.finalResultsOverlay.style.display = 'block';
+    }
+
+    private showFinalPlayerResults(players: Player[]): void {
+        if (!this.finalResultsOverlay) return;
+
         // Sort players by score
         const sortedPlayers = [...players].sort((a, b) => (b.score || 0) - (a.score || 0));
         const winner = sortedPlayers[0];
@@ -466,8 +921,82 @@ class HostLobby {
                 `).join('')}
             </div>
         `;
+    }
 
-        this.finalResultsOverlay.style.display = 'block';
+    private showFinalTeamResults(teamStandings: TeamStanding[]): void {
+        if (!this.finalResultsOverlay) return;
+        const winner = teamStandings[0];
+
+        this.confetti = new Confetti();
+        this.confetti.start(4000);
+
+        this.finalResultsOverlay.innerHTML = `
+            <div style="color: rgba(255,255,255,0.7); font-size: 1.2rem; margin-bottom: 10px;">Game Over!</div>
+            <div style="color: #e94560; font-size: 3rem; font-weight: bold; margin-bottom: 10px;">
+                <span style="font-size: 3.5rem;">🏆</span>
+            </div>
+            <div style="color: ${getTeamColor(winner.team)}; font-size: 2.5rem; font-weight: bold; margin-bottom: 10px;">
+                ${getTeamName(winner.team)} Wins!
+            </div>
+            <div style="color: rgba(255,255,255,0.6); font-size: 1.1rem; margin-bottom: 30px;">
+                Final Score: ${winner.score} points
+            </div>
+            <div style="text-align: left; margin-top: 30px;">
+                <div style="color: rgba(255,255,255,0.7); font-size: 1.3rem; margin-bottom: 15px; text-align: center;">Team Standings</div>
+                ${teamStandings.map((t, i) => `
+                    <div style="
+                        display: flex;
+                        align-items: center;
+                        padding: 12px 20px;
+                        margin: 8px 0;
+                        background: rgba(255,255,255,0.05);
+                        border-radius: 10px;
+                        border-left: 6px solid ${getTeamColor(t.team)};
+                    ">
+                        <span style="width: 35px; font-weight: bold; color: white;">${i + 1}</span>
+                        <span style="flex: 1; color: white; font-size: 1.2rem;">
+                            ${i === 0 ? '👑 ' : ''}${getTeamName(t.team)}
+                            <span style="display: block; color: rgba(255,255,255,0.5); font-size: 0.9rem;">${t.members.join(', ')}</span>
+                        </span>
+                        <span style="color: #e94560; font-weight: bold; font-size: 1.2rem;">${t.score}p</span>
+                    </div>
+                `).join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Button that copies a party link for playing this game later, against everyone's answers
+     */
+    private addChallengeLink(gameId: string): void {
+        const url = new URL(this.joinUrl ?? '/party', window.location.href);
+        url.search = `?challenge=${encodeURIComponent(gameId)}`;
+
+        const button = document.createElement('button');
+        button.className = 'challenge-link';
+        button.textContent = '🔗 Copy challenge link';
+        button.addEventListener('click', async () => {
+            try {
+                await navigator.clipboard.writeText(url.toString());
+                button.textContent = '✓ Challenge link copied';
+            } catch (err) {
+                // Clipboard needs a secure context - show the link to copy by hand
+                console.error('Failed to copy challenge link:', err);
+                window.prompt('Challenge link', url.toString());
+            }
+        });
+        this.finalResultsOverlay?.appendChild(button);
+    }
+
+    /**
+     * Button that starts another game with the same players and settings
+     */
+    private addPlayAgainButton(): void {
+        const button = document.createElement('button');
+        button.className = 'play-again';
+        button.textContent = '🔁 Play again';
+        button.addEventListener('click', () => this.send({ type: 'play-again' }));
+        this.finalResultsOverlay?.appendChild(button);
     }
 }
 
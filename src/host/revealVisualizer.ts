@@ -2,6 +2,7 @@
  * Reveal Visualizer
  * Orchestrates the visual reveal sequence showing player answers and correct location
  * Displays pins for all answers and animated arcs from answers to correct location
+ * For country questions, the target country is raised above the rest of the globe
  */
 
 import { Scene } from '@babylonjs/core/scene';
@@ -18,13 +19,16 @@ const ARC_ANIMATION_DURATION = 2000; // 2 seconds
 const ARC_START_DELAY = 300; // 300ms delay before arcs start
 const CAMERA_ANIMATION_DURATION = 2000; // 2 seconds
 const CAMERA_TARGET_RADIUS = 6; // Distance from globe
+const HIGHLIGHT_ALTITUDE = 1.0; // Target country of a country question
+const DIMMED_SATURATION = 0.3; // Every other country while the target is raised
 
 interface RevealData {
     correct: {
         name: string;
-        country: string;
+        country?: string;
         lat: number;
         lon: number;
+        countryCode?: string;
     };
     results: Array<{
         name: string;
@@ -49,6 +53,9 @@ export class RevealVisualizer {
     private currentArcIds: string[] = [];
     private animationFrameId: number | null = null;
 
+    // Country values before highlighting, restored by hideReveal()
+    private savedCountryState: { index: number; altitude: number; saturations: number[] } | null = null;
+
     constructor(globe: EarthGlobe, scene: Scene, camera: ArcRotateCamera) {
         this.globe = globe;
         this.scene = scene;
@@ -98,6 +105,9 @@ export class RevealVisualizer {
 
         // Step 2: Add player pins at final positions (NOT the correct location pin)
         this.showPlayerPins(data);
+        if (data.correct.countryCode) {
+            this.highlightCountry(data.correct.countryCode);
+        }
 
         // Step 3: Create arcs (invisible initially)
         this.createArcs(data);
@@ -169,9 +179,48 @@ export class RevealVisualizer {
             this.animationFrameId = null;
         }
 
+        this.clearCountryHighlight();
+
         console.log('Reveal visualization hidden');
     }
 
+    /**
+     * Screen position of a player's pin, for effects drawn over the globe
+     * @returns null when the player has no pin showing, or it faces away
+     */
+    getPinScreenPosition(playerName: string): { x: number; y: number } | null {
+        return this.pinManager.getPinScreenPosition(`player_${playerName}`);
+    }
+
+    /**
+     * Raise the target country and dim the rest
+     */
+    private highlightCountry(iso2: string): void {
+        const country = this.globe.getCountryByISO2(iso2);
+        if (!country) return;
+
+        const count = this.globe.getCountryCount();
+        this.savedCountryState = {
+            index: country.index,
+            altitude: this.globe.getCountryAltitude(country.index),
+            saturations: Array.from({ length: count }, (_, i) => this.globe.getCountrySaturation(i))
+        };
+
+        for (let i = 0; i < count; i++) {
+            this.globe.setCountrySaturation(i, i === country.index ? 1.0 : DIMMED_SATURATION);
+        }
+        this.globe.setCountryAltitude(country.index, HIGHLIGHT_ALTITUDE);
+    }
+
+    private clearCountryHighlight(): void {
+        if (!this.savedCountryState) return;
+
+        const { index, altitude, saturations } = this.savedCountryState;
+        saturations.forEach((saturation, i) => this.globe.setCountrySaturation(i, saturation));
+        this.globe.setCountryAltitude(index, altitude);
+        this.savedCountryState = null;
+    }
+
     /**
      * Display pins for all player answers (no correct location pin)
      */
@@ -11,6 +11,7 @@ import { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh';
 import { TransformNode } from '@babylonjs/core/Meshes/transformNode';
 import { Vector3 } from '@babylonjs/core/Maths/math.vector';
 import { Quaternion } from '@babylonjs/core/Maths/math.vector';
+import { Matrix } from '@babylonjs/core/Maths/math.vector';
 import { Material } from '@babylonjs/core/Materials/material';
 import { Color3 } from '@babylonjs/core/Maths/math.color';
 import { StandardMaterial } from '@babylonjs/core/Materials/standardMaterial';
@@ -154,6 +155,35 @@ export class MultiPinManager {
         return this.pins;
     }
 
+    /**
+     * Where a pin stands on screen, in CSS pixels from the canvas's top left corner
+     * @returns null if there's no such pin or it's on the far side of the globe
+     */
+    getPinScreenPosition(playerId: string): { x: number; y: number } | null {
+        const pin = this.pins.get(playerId);
+        if (!pin) return null;
+
+        const position = pin.mesh.getAbsolutePosition();
+        const toCamera = this.camera.position.subtract(position);
+        if (Vector3.Dot(position, toCamera) < 0) return null; // Hidden behind the globe
+
+        const engine = this.scene.getEngine();
+        const width = engine.getRenderWidth();
+        const height = engine.getRenderHeight();
+        const projected = Vector3.Project(
+            position,
+            Matrix.IdentityReadOnly,
+            this.scene.getTransformMatrix(),
+            this.camera.viewport.toGlobal(width, height)
+        );
+
+        // Render pixels differ from CSS pixels on high-DPI screens
+        const canvas = engine.getRenderingCanvas();
+        const scaleX = canvas ? canvas.clientWidth / width : 1;
+        const scaleY = canvas ? canvas.clientHeight / height : 1;
+        return { x: projected.x * scaleX, y: projected.y * scaleY };
+    }
+
     /**
      * Create a pin mesh with the specified color
      */
@@ -1,9 +1,11 @@
 /**
  * Pin Recorder Module
  * Records player pin movements (cursor/touch tracking) during placement
- * Stores up to 100 positions with timestamps for replay
+ * Stores up to MAX_RECORDED_POSITIONS positions with timestamps for replay
  */
 
+import { MAX_RECORDED_POSITIONS } from '../shared/protocol';
+
 export interface RecordedPosition {
     lat: number;
     lon: number;
@@ -21,7 +23,7 @@ export class PinRecorder {
     private positions: RecordedPosition[] = [];
     private startTime: number = 0;
     private isRecording: boolean = false;
-    private maxPositions: number = 100;
+    private maxPositions: number = MAX_RECORDED_POSITIONS; // The server rejects longer recordings
     private lastRecordedTime: number = 0;
     private minTimeBetweenSamples: number = 16; // ~60fps
 
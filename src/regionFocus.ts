@@ -0,0 +1,58 @@
+/**
+ * Region Focus
+ * Keeps a region-restricted game ("Europe only") on its region - countries outside it
+ * are desaturated and the camera frames the region's box at the start of each round
+ * With limitCamera set (party client) the camera can't be turned away from the region
+ */
+
+import type { EarthGlobe } from './earthGlobe';
+import { CameraAnimator } from './cameraAnimator';
+import { REGION_BOUNDS, type Region } from '../shared/geo';
+
+const OUTSIDE_SATURATION = 0.2; // Countries outside the region
+const FRAME_DURATION = 1500; // 1.5 seconds
+
+export class RegionFocus {
+    private globe: EarthGlobe;
+    private cameraAnimator: CameraAnimator;
+    private limitCamera: boolean;
+    private region: Region | null = null;
+
+    constructor(globe: EarthGlobe, limitCamera: boolean = false) {
+        this.globe = globe;
+        this.cameraAnimator = new CameraAnimator(globe.getCamera());
+        this.limitCamera = limitCamera;
+    }
+
+    /**
+     * Desaturate every country outside the region - null brings back the whole world
+     */
+    async setRegion(region: Region | null): Promise<void> {
+        if (region === this.region) return;
+        this.region = region;
+        this.cameraAnimator.limitToBounds(null);
+
+        await this.globe.whenReady();
+        if (region !== this.region) return; // Changed again while the countries loaded
+
+        const count = this.globe.getCountryCount();
+        for (let i = 0; i < count; i++) {
+            const inside = !region || this.globe.getCountryRegion(i) === region;
+            this.globe.setCountrySaturation(i, inside ? 1.0 : OUTSIDE_SATURATION);
+        }
+    }
+
+    /**
+     * Bring the region into view, then limit the camera to it if asked to
+     * Does nothing in whole-world games
+     */
+    async frame(): Promise<void> {
+        const region = this.region;
+        if (!region) return;
+
+        await this.cameraAnimator.animateToBounds(REGION_BOUNDS[region], FRAME_DURATION);
+        if (this.limitCamera && region === this.region) {
+            this.cameraAnimator.limitToBounds(REGION_BOUNDS[region]);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * Round countdown
+ * Shows the seconds left until the server's answer deadline
+ */
+
+const UPDATE_INTERVAL = 250; // ms
+const WARNING_SECONDS = 5;   // Turn red for the last few seconds
+
+export class RoundCountdown {
+    private element: HTMLElement;
+    private intervalId: number | null = null;
+    private deadline: number = 0;
+    private clockOffset: number = 0; // Server clock minus local clock
+
+    constructor(element: HTMLElement) {
+        this.element = element;
+        this.element.style.display = 'none';
+    }
+
+    /**
+     * Start counting down to a deadline
+     * @param deadline Epoch ms on the server clock, or null for rounds without a time limit
+     * @param serverTime Server clock when the message was sent, used to correct for local clock drift
+     */
+    start(deadline: number | null, serverTime: number): void {
+        this.stop();
+        if (deadline === null) return;
+
+        this.deadline = deadline;
+        this.clockOffset = serverTime - Date.now();
+        this.element.style.display = 'block';
+        this.render();
+        this.intervalId = window.setInterval(() => this.render(), UPDATE_INTERVAL);
+    }
+
+    /**
+     * Freeze the countdown while the host has paused the round
+     * Call start() with the new deadline to carry on
+     */
+    pause(): void {
+        this.stop();
+        this.element.textContent = '⏸ Paused';
+        this.element.style.color = 'rgba(255,255,255,0.9)';
+        this.element.style.display = 'block';
+    }
+
+    stop(): void {
+        if (this.intervalId !== null) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.element.style.display = 'none';
+    }
+
+    private render(): void {
+        const remainingMs = this.deadline - (Date.now() + this.clockOffset);
+        const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+        this.element.textContent = `⏱ ${seconds}s`;
+        this.element.style.color = seconds <= WARNING_SECONDS ? '#e94560' : 'rgba(255,255,255,0.9)';
+
+        if (remainingMs <= 0 && this.intervalId !== null) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+    }
+}